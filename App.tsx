@@ -8,35 +8,42 @@ import {
   AlertTriangle, MessageSquare, Sparkles, Fan, Gauge, Timer, CalendarClock,
   PenTool, Coins, Cpu, GripVertical, Settings2, ArrowRight,
   CircleDot, Cylinder, LandPlot, MousePointer2, X, Workflow, Cable, Construction,
-  RectangleVertical, Container, Spline, Disc, Plug
+  RectangleVertical, Container, Spline, Disc, Plug, Upload, Download, FolderOpen,
+  Undo2, Redo2, Copy, ClipboardPaste, Bell, ZoomIn, ZoomOut, Scan, Magnet, GitCompare, Plus,
+  StepForward, FastForward, Flag, FileSpreadsheet, FileCode
 } from 'lucide-react';
-import { ChatMessage, Sender, Attachment, FaultState, PlanStep, DesignParadigm, DisturbanceType, DisturbanceConfig } from './types';
+import { ChatMessage, Sender, Attachment, FaultState, TimelineEvent, DesignParadigm, DisturbanceType, DisturbanceConfig, NodeType, CanvasNode, CanvasEdge, HistorySample, SimulationState, TopologyIssue, NodeFlow, ControlAlgorithm, ControlTuning, ControllerGains, ModelMismatch, MpcConfig, ControlParams, NodeFault, FaultProfile, ProjectFile, CanvasDocument, EditHistory, Viewport, PortName, PortSide, PipeRouting, CostConfig, TariffPeriod, ComparisonVariant, ComparisonResult, ComparisonKpis, SimulationInputs, ChartPanel } from './types';
 import ChatInput from './components/ChatInput';
 import MarkdownRenderer from './components/MarkdownRenderer';
+import TimelineEditor from './components/TimelineEditor';
+import TrendChart from './components/TrendChart';
 import { streamGeminiResponse } from './services/geminiService';
+import { DT, INITIAL_LEVEL, createSimulationState, stepSimulation, resetPlant, setPattern, reseed, restartRun, loadScenario, DEFAULT_DEMAND_PATTERN, DEFAULT_SETPOINT_PATTERN } from './services/simulationEngine';
+import { parseDemandProfile } from './utils/disturbance';
+import { MAX_LEVEL, OVERFLOW_LEVEL, SPILLWAY_CAPACITY, analyzeTopology } from './services/hydraulicSolver';
+import { checkConnection, validateNetwork } from './services/topologyValidator';
+import { ALARM_BANDS, acknowledgeAlarms, getAlarmLimits } from './services/alarms';
+import { getPumpEfficiency, getPumpHead, getPumpSpec } from './services/pumps';
+import { DEFAULT_PIPE_DELAY, PIPE_DEFAULTS, PIPE_ROUTINGS, getPipeDelay, getPipeGeometry, getPipeRouting } from './services/pipeHydraulics';
+import { NODE_PORTS, getSourcePort, getTargetPort, isMainOutlet } from './services/ports';
+import { DEFAULT_CONTROL_TUNING, DEFAULT_MODEL_MISMATCH } from './services/controllers';
+import { DEFAULT_COST_CONFIG, getTankCost, getTariffGaps, summarizeCosts } from './services/costs';
+import { SETTLING_BAND, createVariant, runComparison } from './services/comparison';
+import { DEFAULT_FAULTS, NODE_FAULT_INFO, getFaultIntensity } from './services/faults';
+import { loadAutosave, parseProject, parseScenario, saveAutosave, serializeProject, serializeScenario } from './services/project';
+import { getEventLabel, getOrphanedEvents, isEventDone } from './services/timeline';
+import { DEFAULT_CHART_PANELS, getTrendSignals } from './services/trendSignals';
+import { createRunExport, serializeRunCsv, serializeRunJson } from './services/runExport';
+import type { WorkerBatch, WorkerRequest } from './services/simulationWorker';
+import { GRID_SIZE, fitViewport, getContentBounds, getEdgePath, getPortPosition, screenToWorld, snapToGrid, zoomAt } from './utils/canvasGeometry';
+import { appendSamples, clearHistory, createHistoryStore } from './utils/historyStore';
+import { downloadBlob } from './utils/fileUtils';
+import { createEditHistory, extractSubgraph, nodesInRect, pasteSubgraph, pushEdit, redoEdit, removeNodes, undoEdit } from './utils/canvasEdit';
 
 // --- TYPES & CONSTANTS ---
-const DT = 0.1;
-const BUFFER_SIZE = 500; 
-const HISTORY_SECONDS = 60;
-const MAX_HISTORY = Math.round(HISTORY_SECONDS / DT);
-
-type NodeType = 'SOURCE' | 'PUMP' | 'PIPE' | 'RESERVOIR' | 'DEMAND' | 'VALVE' | 'GATE' | 'TURBINE';
-
-interface CanvasNode {
-  id: string;
-  type: NodeType;
-  x: number;
-  y: number;
-  label: string;
-  data: any; 
-}
-
-interface CanvasEdge {
-  id: string;
-  source: string;
-  target: string;
-}
+const SPEED_OPTIONS = [0.1, 0.25, 0.5, 1, 2, 5, 10, 25, 50, 100];
+const TICK_MS = 50;              // Live driver tick; each tick runs the steps the speed calls for
+const MAX_STEPS_PER_TICK = 500;  // Beyond this the run falls behind the requested speed instead of freezing the UI
 
 // Design Paradigms
 const PARADIGMS: DesignParadigm[] = [
@@ -72,35 +79,62 @@ const PARADIGMS: DesignParadigm[] = [
   }
 ];
 
+const GAIN_FIELDS: { key: keyof ControllerGains; label: string; step: number }[] = [
+  { key: 'kp', label: 'Kp 比例', step: 0.1 },
+  { key: 'ki', label: 'Ki 积分', step: 0.05 },
+  { key: 'kd', label: 'Kd 微分', step: 0.05 },
+  { key: 'integralLimit', label: '积分限幅 Anti-windup', step: 10 },
+  { key: 'bias', label: '输出偏置 Bias', step: 1 },
+];
+
+const FAULT_FIELDS: { key: keyof FaultState; label: string; unit: string; max: number; initial: number }[] = [
+  { key: 'leakage', label: '池体泄漏 Leakage', unit: '', max: 50, initial: 20 },
+  { key: 'pumpEfficiency', label: '泵效率下降 Pump', unit: '%', max: 50, initial: 20 },
+  { key: 'sensorDrift', label: '传感器漂移 Drift', unit: 'mm/s', max: 50, initial: 20 },
+  { key: 'sensorNoise', label: '传感器噪声 Noise', unit: 'cm', max: 50, initial: 10 },
+  { key: 'sensorStuck', label: '传感器卡死 Stuck', unit: '', max: 0, initial: 0 },
+  { key: 'sensorDropout', label: '信号丢包 Dropout', unit: '%', max: 90, initial: 20 },
+];
+
+const MPC_FIELDS: { key: keyof MpcConfig; label: string; step: number }[] = [
+  { key: 'predictionHorizon', label: '预测时域 Np', step: 1 },
+  { key: 'controlHorizon', label: '控制时域 Nc', step: 1 },
+  { key: 'sampleTime', label: '采样周期 Ts (s)', step: 0.1 },
+  { key: 'levelWeight', label: '水位权重 Q', step: 0.1 },
+  { key: 'moveWeight', label: '动作权重 R', step: 0.001 },
+  { key: 'flowMin', label: '流量下限 (m³/s)', step: 5 },
+  { key: 'flowMax', label: '流量上限 (m³/s)', step: 5 },
+  { key: 'levelMin', label: '水位下限 (m)', step: 1 },
+  { key: 'levelMax', label: '水位上限 (m)', step: 1 },
+];
+
+const DEFAULT_NODE_DATA: Record<NodeType, any> = {
+  SOURCE: { head: 300 },
+  PUMP: { efficiency: 100 },
+  PIPE: { delay: 5 },
+  RESERVOIR: { area: 100, overflowLevel: OVERFLOW_LEVEL },
+  DEMAND: {},
+  VALVE: { open: 100, area: 10 },
+  GATE: { open: 100, width: 8 },
+  TURBINE: { capacity: 100, open: 100, ratedFlow: 100 }
+};
+
 const DISTURBANCE_OPTIONS: { type: DisturbanceType; label: string }[] = [
   { type: 'CONSTANT', label: '恒定值' },
   { type: 'STEP', label: '阶跃突变' },
   { type: 'RAMP', label: '线性爬坡' },
   { type: 'SINE', label: '正弦波动' },
   { type: 'SQUARE', label: '方波震荡' },
+  { type: 'TRIANGLE', label: '三角波' },
+  { type: 'SAWTOOTH', label: '锯齿波' },
   { type: 'PULSE', label: '脉冲干扰' },
   { type: 'NOISE', label: '随机白噪声' },
+  { type: 'RANDOM_WALK', label: '随机游走' },
   { type: 'BURST', label: '突发洪峰' },
+  { type: 'CSV_PROFILE', label: '实测曲线 (CSV)' },
 ];
 
-// --- MATH HELPERS ---
-const getDisturbanceValue = (t: number, config: DisturbanceConfig) => {
-  const { type, base, amplitude, frequency } = config;
-  const omega = 2 * Math.PI * frequency;
-  const period = 1 / Math.max(0.001, frequency);
-  const localT = t % period;
-  switch(type) {
-    case 'CONSTANT': return base;
-    case 'STEP': return localT < period/2 ? base : base + amplitude;
-    case 'RAMP': return base + amplitude * (localT / period);
-    case 'SINE': return base + amplitude * Math.sin(omega * t);
-    case 'SQUARE': return base + amplitude * Math.sign(Math.sin(omega * t));
-    case 'PULSE': return localT < period * 0.1 ? base + amplitude : base;
-    case 'NOISE': return base + (Math.random() - 0.5) * amplitude;
-    case 'BURST': return (t % 20 > 18) ? base + amplitude * 2 : base;
-    default: return base;
-  }
-};
+const DISTURBANCE_FIELDS: ('base' | 'amplitude' | 'frequency')[] = ['base', 'amplitude', 'frequency'];
 
 // --- UI COMPONENTS ---
 
@@ -122,15 +156,35 @@ const PaletteItem = ({ type, icon: Icon, label, isLinear }: { type: NodeType, ic
   </div>
 );
 
+const PORT_POSITION: Record<PortSide, string> = {
+  left: '-left-3 top-1/2 -translate-y-1/2',
+  right: '-right-3 top-1/2 -translate-y-1/2',
+  top: '-top-3 left-1/2 -translate-x-1/2'
+};
+
+const PORT_STYLE: Record<PortName, string> = {
+  inlet: 'border-slate-500 hover:bg-green-500 hover:border-green-300',
+  outlet: 'border-slate-500 hover:bg-blue-500 hover:border-blue-300',
+  overflow: 'border-sky-600 hover:bg-sky-400 hover:border-sky-200',
+  bypass: 'border-amber-600 hover:bg-amber-400 hover:border-amber-200'
+};
+
+// Dash travel per animation cycle (px) and the flow at which an edge completes a cycle per second
+const EDGE_DASH_CYCLE = 30;
+const EDGE_FLOW_PER_CYCLE = 50; // m3/s
+
 interface CanvasNodeComponentProps {
   node: CanvasNode;
   isSelected: boolean;
+  issue?: TopologyIssue;
+  flow?: NodeFlow;
+  faultBadge?: { active: boolean; title: string };
   onMouseDown: (e: React.MouseEvent) => void;
-  onStartConnect: (e: React.MouseEvent, nodeId: string) => void;
-  onEndConnect: (e: React.MouseEvent, nodeId: string) => void;
+  onStartConnect: (e: React.MouseEvent, nodeId: string, port: PortName) => void;
+  onEndConnect: (e: React.MouseEvent, nodeId: string, port: PortName) => void;
 }
 
-const CanvasNodeComponent: React.FC<CanvasNodeComponentProps> = ({ node, isSelected, onMouseDown, onStartConnect, onEndConnect }) => {
+const CanvasNodeComponent: React.FC<CanvasNodeComponentProps> = ({ node, isSelected, issue, flow, faultBadge, onMouseDown, onStartConnect, onEndConnect }) => {
   // Render Visuals
   let Visual = null;
   
@@ -142,7 +196,7 @@ const CanvasNodeComponent: React.FC<CanvasNodeComponentProps> = ({ node, isSelec
               {[1,2,3,4,5].map(i => <div key={i} className="w-1 h-full bg-cyan-400 transform -skew-x-12"></div>)}
            </div>
            <span className="relative z-10 text-[9px] font-mono text-cyan-200 font-bold flex gap-1 items-center">
-              <Spline size={10}/> {node.label} ({node.data.delay}s)
+              <Spline size={10}/> {node.label} ({getPipeDelay(node).toFixed(getPipeRouting(node) === 'DELAY' ? 1 : 0)}s)
            </span>
         </div>
     );
@@ -155,12 +209,12 @@ const CanvasNodeComponent: React.FC<CanvasNodeComponentProps> = ({ node, isSelec
 
       switch(node.type) {
         case 'SOURCE': Icon = Waves; colorClass="text-blue-400"; break;
-        case 'PUMP': Icon = Fan; colorClass="text-orange-400"; borderClass="border-orange-900/50"; subLabel=`η:${node.data.efficiency||100}%`; break;
-        case 'TURBINE': Icon = Zap; colorClass="text-purple-400"; borderClass="border-purple-900/50"; subLabel=`${node.data.capacity||100}MW`; break;
+        case 'PUMP': Icon = Fan; colorClass="text-orange-400"; borderClass="border-orange-900/50"; subLabel=`${flow?.unitsRunning ?? 0}/${getPumpSpec(node).units}台 ${(flow?.powerUse ?? 0).toFixed(1)}MW`; break;
+        case 'TURBINE': Icon = Zap; colorClass="text-purple-400"; borderClass="border-purple-900/50"; subLabel=`${(flow?.power ?? 0).toFixed(1)}/${node.data.capacity ?? 100}MW`; break;
         case 'RESERVOIR': Icon = Container; colorClass="text-cyan-400"; borderClass="border-cyan-900/50"; subLabel=`A:${node.data.area}m²`; break;
         case 'DEMAND': Icon = ArrowRight; colorClass="text-red-400"; break;
-        case 'VALVE': Icon = CircleDot; colorClass="text-yellow-400"; subLabel=`${node.data.open||100}%`; break;
-        case 'GATE': Icon = RectangleVertical; colorClass="text-yellow-500"; subLabel=`${node.data.open||100}%`; break;
+        case 'VALVE': Icon = CircleDot; colorClass="text-yellow-400"; subLabel=`${node.data.open ?? 100}% Q:${(flow?.outflow ?? 0).toFixed(1)}`; break;
+        case 'GATE': Icon = RectangleVertical; colorClass="text-yellow-500"; subLabel=`${node.data.open ?? 100}% Q:${(flow?.outflow ?? 0).toFixed(1)}`; break;
       }
 
       Visual = (
@@ -181,34 +235,175 @@ const CanvasNodeComponent: React.FC<CanvasNodeComponentProps> = ({ node, isSelec
       className={`absolute flex flex-col items-center cursor-grab active:cursor-grabbing group z-20 select-none`}
       style={{ left: node.x, top: node.y, transform: 'translate(-50%, -50%)' }}
       onMouseDown={onMouseDown}
+      title={issue?.message}
     >
-      {/* Input Port (Left) */}
-      {node.type !== 'SOURCE' && (
-          <div 
-            className="absolute -left-3 top-1/2 -translate-y-1/2 w-3 h-3 bg-slate-800 rounded-full border-2 border-slate-500 hover:bg-green-500 hover:border-green-300 hover:scale-125 transition-all cursor-crosshair z-30"
-            onMouseUp={(e) => { e.stopPropagation(); onEndConnect(e, node.id); }}
-            title="Input Port"
-          />
+      {issue?.severity === 'error' && <div className="absolute -inset-2 rounded-xl border-2 border-red-500/70 pointer-events-none animate-pulse"/>}
+      {issue && <div className={`absolute -top-2 -right-2 z-30 bg-slate-950 rounded-full ${issue.severity === 'error' ? 'text-red-500' : 'text-amber-400'}`}><AlertTriangle size={12}/></div>}
+      {faultBadge && (
+         <div title={faultBadge.title} className={`absolute -top-2 -left-2 z-30 bg-slate-950 rounded-full ${faultBadge.active ? 'text-red-500 animate-pulse' : 'text-slate-500'}`}>
+            {faultBadge.active ? <AlertOctagon size={12}/> : <Clock size={12}/>}
+         </div>
       )}
-
       {Visual}
 
-      {/* Output Port (Right) */}
-      {node.type !== 'DEMAND' && (
-          <div 
-            className="absolute -right-3 top-1/2 -translate-y-1/2 w-3 h-3 bg-slate-800 rounded-full border-2 border-slate-500 hover:bg-blue-500 hover:border-blue-300 hover:scale-125 transition-all cursor-crosshair z-30"
-            onMouseDown={(e) => { e.stopPropagation(); onStartConnect(e, node.id); }}
-            title="Output Port"
+      {/* Ports: inlets accept a dragged connection, outlets start one */}
+      {NODE_PORTS[node.type].map(port => (
+          <div
+            key={port.name}
+            className={`absolute ${PORT_POSITION[port.side]} w-3 h-3 bg-slate-800 rounded-full border-2 hover:scale-125 transition-all cursor-crosshair z-30 ${PORT_STYLE[port.name]}`}
+            onMouseDown={port.direction === 'out' ? (e) => { if (e.button !== 0) return; e.stopPropagation(); onStartConnect(e, node.id, port.name); } : undefined}
+            onMouseUp={port.direction === 'in' ? (e) => { e.stopPropagation(); onEndConnect(e, node.id, port.name); } : undefined}
+            title={port.label}
           />
-      )}
+      ))}
+    </div>
+  );
+};
+
+interface InspectorSliderProps {
+  label: string;
+  unit: string;
+  value: number;
+  min: number;
+  max: number;
+  step?: number;
+  valueClass: string;
+  accentClass: string;
+  onChange: (value: number) => void;
+}
+
+const InspectorSlider: React.FC<InspectorSliderProps> = ({ label, unit, value, min, max, step = 1, valueClass, accentClass, onChange }) => (
+  <div>
+    <div className="flex justify-between text-[10px] mb-1"><span className="text-slate-500">{label}</span><span className={`${valueClass} font-mono`}>{value} {unit}</span></div>
+    <input type="range" min={min} max={max} step={step} value={value} onChange={(e) => onChange(Number(e.target.value))} className={`w-full h-1.5 bg-slate-800 rounded appearance-none cursor-pointer ${accentClass}`}/>
+  </div>
+);
+
+// --- COSTS ---
+const formatYuan = (v: number) => Math.abs(v) >= 1e4 ? `¥${(v / 1e4).toFixed(1)}万` : `¥${v.toFixed(2)}`;
+
+const NumberField: React.FC<{ label: string; value: number; step?: number; onChange: (value: number) => void }> = ({ label, value, step = 1, onChange }) => (
+  <div className="flex justify-between items-center text-[10px] text-slate-500">
+    <span>{label}</span>
+    <input type="number" step={step} value={value} onChange={e => { if (e.target.value !== '') onChange(Number(e.target.value)); }} className="w-20 bg-slate-950 border border-slate-700 rounded px-1.5 py-0.5 text-right font-mono text-slate-300 outline-none focus:border-amber-500"/>
+  </div>
+);
+
+const CostRow: React.FC<{ label: string; amount: string; value: number; valueClass?: string }> = ({ label, amount, value, valueClass = 'text-slate-300' }) => (
+  <div className="flex justify-between text-[10px]">
+    <span className="text-slate-500">{label}</span>
+    <span className="font-mono"><span className="text-slate-600 mr-2">{amount}</span><span className={valueClass}>{formatYuan(value)}</span></span>
+  </div>
+);
+
+// --- PUMP CURVES ---
+const PumpCurveChart: React.FC<{ node: CanvasNode; flow?: NodeFlow }> = ({ node, flow }) => {
+  const w = 240, h = 90, m = { l: 26, r: 26, t: 6, b: 14 };
+  const spec = getPumpSpec(node);
+  const qMax = spec.ratedFlow;
+  const x = (q: number) => m.l + (q / qMax) * (w - m.l - m.r);
+  const yH = (head: number) => h - m.b - (head / (spec.shutoffHead * 1.1)) * (h - m.t - m.b);
+  const yE = (eta: number) => h - m.b - eta * (h - m.t - m.b);
+  const qs = Array.from({ length: 31 }, (_, i) => qMax * i / 30);
+  const units = flow?.unitsRunning ?? 0;
+  const q = units > 0 ? (flow?.outflow ?? 0) / units : null;
+  return (
+    <svg width={w} height={h} className="bg-slate-950 rounded border border-slate-800">
+      <line x1={m.l} y1={h - m.b} x2={w - m.r} y2={h - m.b} stroke="#334155"/>
+      <polyline points={qs.map(v => `${x(v)},${yH(getPumpHead(node, v))}`).join(' ')} fill="none" stroke="#fb923c" strokeWidth="1.5"/>
+      <polyline points={qs.map(v => `${x(v)},${yE(getPumpEfficiency(node, v))}`).join(' ')} fill="none" stroke="#4ade80" strokeWidth="1.5" strokeDasharray="3 2"/>
+      {q !== null && <circle cx={x(Math.min(q, qMax))} cy={yH(getPumpHead(node, q))} r="3" fill="#fff"/>}
+      <text x={m.l - 3} y={m.t + 6} textAnchor="end" className="text-[8px] fill-orange-400 font-mono">{spec.shutoffHead}m</text>
+      <text x={w - m.r + 3} y={yE(spec.bepEfficiency) + 3} className="text-[8px] fill-green-400 font-mono">{Math.round(spec.bepEfficiency * 100)}%</text>
+      <text x={w - m.r} y={h - 3} textAnchor="end" className="text-[8px] fill-slate-500 font-mono">{qMax} m³/s</text>
+    </svg>
+  );
+};
+
+// --- MINIMAP ---
+const MINIMAP_W = 160;
+const MINIMAP_H = 100;
+
+const Minimap: React.FC<{ nodes: CanvasNode[]; edges: CanvasEdge[]; viewport: Viewport; size: { w: number; h: number }; onNavigate: (x: number, y: number) => void }> = ({ nodes, edges, viewport, size, onNavigate }) => {
+  const view = { ...screenToWorld(viewport, 0, 0), w: size.w / viewport.zoom, h: size.h / viewport.zoom };
+  const content = getContentBounds(nodes);
+  const minX = Math.min(view.x, content?.minX ?? view.x);
+  const minY = Math.min(view.y, content?.minY ?? view.y);
+  const maxX = Math.max(view.x + view.w, content?.maxX ?? 0);
+  const maxY = Math.max(view.y + view.h, content?.maxY ?? 0);
+  const scale = Math.min(MINIMAP_W / (maxX - minX), MINIMAP_H / (maxY - minY));
+  const mx = (x: number) => (x - minX) * scale;
+  const my = (y: number) => (y - minY) * scale;
+  const byId: Record<string, CanvasNode> = {};
+  nodes.forEach(n => { byId[n.id] = n; });
+
+  const navigate = (e: React.MouseEvent<SVGSVGElement>) => {
+    const rect = e.currentTarget.getBoundingClientRect();
+    onNavigate((e.clientX - rect.left) / scale + minX, (e.clientY - rect.top) / scale + minY);
+  };
+
+  return (
+    <svg width={MINIMAP_W} height={MINIMAP_H} className="cursor-pointer" onMouseDown={e => { e.stopPropagation(); navigate(e); }} onMouseMove={e => { if (e.buttons & 1) navigate(e); }}>
+      {edges.map(e => byId[e.source] && byId[e.target] && (
+        <line key={e.id} x1={mx(byId[e.source].x)} y1={my(byId[e.source].y)} x2={mx(byId[e.target].x)} y2={my(byId[e.target].y)} stroke="#155e75" strokeWidth="1"/>
+      ))}
+      {nodes.map(n => <circle key={n.id} cx={mx(n.x)} cy={my(n.y)} r="2.5" fill="#22d3ee"/>)}
+      <rect x={mx(view.x)} y={my(view.y)} width={view.w * scale} height={view.h * scale} fill="#ffffff0d" stroke="#cbd5e1" strokeWidth="1"/>
+    </svg>
+  );
+};
+
+const FAULT_PROFILES: { type: FaultProfile; label: string }[] = [
+  { type: 'STEP', label: '阶跃' },
+  { type: 'LINEAR', label: '线性' },
+  { type: 'EXP', label: '指数' },
+];
+
+const NodeFaultRow: React.FC<{ fault: NodeFault; onChange: (patch: Partial<NodeFault>) => void; onRemove: () => void }> = ({ fault, onChange, onRemove }) => {
+  const info = NODE_FAULT_INFO[fault.kind];
+  const numberField = (label: string, value: number | null, apply: (v: number | null) => void, placeholder?: string) => (
+    <label className="flex flex-col gap-0.5">
+      <span className="text-slate-500">{label}</span>
+      <input type="number" value={value ?? ''} placeholder={placeholder} onChange={e => apply(e.target.value === '' ? null : Number(e.target.value))} className="w-full bg-slate-950 border border-slate-700 rounded px-1.5 py-0.5 font-mono text-slate-300 outline-none focus:border-red-500"/>
+    </label>
+  );
+  return (
+    <div className="bg-slate-950 p-2 rounded border border-red-900/30 space-y-2 text-[10px]">
+      <div className="flex justify-between items-center">
+        <span className="font-bold text-red-300">{info.label}</span>
+        <Trash2 size={12} className="text-slate-600 cursor-pointer hover:text-red-400" onClick={onRemove}/>
+      </div>
+      <div className="grid grid-cols-2 gap-2">
+        {numberField(`强度 ${info.unit}`, fault.value, v => onChange({ value: v ?? 0 }))}
+        {numberField('发生 Onset (s)', fault.onset, v => onChange({ onset: v ?? 0 }))}
+        {numberField('爬升 Ramp (s)', fault.rampTime, v => onChange({ rampTime: Math.max(0, v ?? 0) }))}
+        {numberField('恢复 Recovery (s)', fault.recovery, v => onChange({ recovery: v }), '永久')}
+      </div>
+      <select value={fault.profile} onChange={e => onChange({ profile: e.target.value as FaultProfile })} className="w-full bg-slate-950 border border-slate-700 p-1 rounded outline-none text-slate-300">
+        {FAULT_PROFILES.map(p => <option key={p.type} value={p.type}>{p.label}</option>)}
+      </select>
     </div>
   );
 };
 
-// --- CHART ---
-const TrendChart: React.FC<{ history: any[], prediction?: any[], faults: any }> = ({ history, prediction, faults }) => {
+// --- COMPARISON ---
+const VARIANT_COLORS = ['#06b6d4', '#f59e0b', '#a855f7', '#10b981', '#ef4444', '#3b82f6'];
+
+const KPI_COLUMNS: { key: keyof ComparisonKpis; label: string; unit: string; digits: number }[] = [
+  { key: 'iae', label: 'IAE', unit: 'm·s', digits: 1 },
+  { key: 'ise', label: 'ISE', unit: 'm²·s', digits: 1 },
+  { key: 'overshoot', label: '超调', unit: 'm', digits: 2 },
+  { key: 'settlingTime', label: '调节时间', unit: 's', digits: 1 },
+  { key: 'spill', label: '溢流', unit: 'm³', digits: 0 },
+  { key: 'unmet', label: '缺水', unit: 'm³', digits: 0 },
+  { key: 'energy', label: '电耗', unit: 'kWh', digits: 0 },
+  { key: 'cost', label: '成本', unit: '¥', digits: 0 }
+];
+
+// Level traces of every variant on top, pump flows below, against the same demand
+const ComparisonChart: React.FC<{ results: ComparisonResult[] }> = ({ results }) => {
   const containerRef = useRef<HTMLDivElement>(null);
-  const [dims, setDims] = useState({ w: 600, h: 200 });
+  const [dims, setDims] = useState({ w: 400, h: 200 });
 
   useEffect(() => {
     if (!containerRef.current) return;
@@ -217,93 +412,61 @@ const TrendChart: React.FC<{ history: any[], prediction?: any[], faults: any }>
     return () => ro.disconnect();
   }, []);
 
-  if (!history.length) return <div className="w-full h-full bg-slate-950 flex items-center justify-center text-xs text-slate-600 animate-pulse">等待仿真数据...</div>;
-
+  const points = results.flatMap(r => r.trace);
   const { w, h } = dims;
-  const m = { t: 20, b: 30, l: 40, r: 40 }; // Margins
-  const chartW = w - m.l - m.r;
-  const chartH = h - m.t - m.b;
+  const m = { t: 12, b: 20, l: 40, r: 10 };
+  const gap = 14;
+  const levelH = (h - m.t - m.b - gap) * 0.6;
+  const flowTop = m.t + levelH + gap;
+  const flowH = h - m.b - flowTop;
+  // One pass over the traces: spreading them into Math.min/max overflows the stack on long runs
+  let tEnd = 1;
+  let lMin = INITIAL_LEVEL;
+  let lMax = INITIAL_LEVEL;
+  let fMax = 10;
+  points.forEach(p => {
+    tEnd = Math.max(tEnd, p.t);
+    lMin = Math.min(lMin, p.level, p.target);
+    lMax = Math.max(lMax, p.level, p.target);
+    fMax = Math.max(fMax, p.flowIn, p.flowOut);
+  });
+  lMin = Math.floor(lMin - 1);
+  lMax = Math.ceil(lMax + 1);
+  fMax *= 1.1;
 
-  const last = history[history.length - 1];
-  const tEnd = last.t + (45 * 0.25);
-  const tStart = tEnd - 45;
-  
-  const getX = (t: number) => m.l + ((t - tStart) / (tEnd - tStart)) * chartW;
-  const getYFlow = (v: number) => m.t + chartH - (Math.max(0, Math.min(250, v)) / 250) * chartH;
-  const getYLevel = (v: number) => m.t + chartH - (Math.max(0, Math.min(350, v)) / 350) * chartH;
-
-  const makePath = (data: any[], val: string, scale: (v:number)=>number) => {
-    const visible = data.filter(d => d.t >= tStart - 2 && d.t <= tEnd + 2);
-    if(visible.length < 2) return "";
-    return visible.map(d => `${getX(d.t).toFixed(1)},${scale(d[val]).toFixed(1)}`).join(" ");
-  };
-
-  const pLevel = makePath(history, 'level', getYLevel);
-  const pTarget = makePath(history, 'target', getYLevel);
-  const pFlow = makePath(history, 'flowIn', getYFlow);
-  const pDemand = makePath(history, 'flowOut', getYFlow);
-  
-  let pPredLevel = "", pPredDemand = "";
-  if (prediction && prediction.length > 0) {
-    const combined = [last, ...prediction];
-    pPredLevel = makePath(combined, 'level', getYLevel);
-    pPredDemand = makePath(combined, 'flowOut', getYFlow);
-  }
-
-  const xNow = getX(last.t);
+  const getX = (t: number) => m.l + t / tEnd * (w - m.l - m.r);
+  const getYLevel = (v: number) => m.t + levelH - (v - lMin) / (lMax - lMin) * levelH;
+  const getYFlow = (v: number) => flowTop + flowH - v / fMax * flowH;
+  const line = (trace: ComparisonResult['trace'], key: 'level' | 'target' | 'flowIn' | 'flowOut', scale: (v: number) => number) =>
+    trace.map(p => `${getX(p.t).toFixed(1)},${scale(p[key]).toFixed(1)}`).join(' ');
 
   return (
     <div ref={containerRef} className="w-full h-full relative bg-slate-950 rounded-lg border border-slate-800 overflow-hidden select-none">
-       {faults.leakage.active && <div className="absolute inset-0 bg-red-500/10 animate-pulse z-0 pointer-events-none"/>}
-       
-       <svg width={w} height={h} className="absolute inset-0 z-10">
-          <defs>
-             <linearGradient id="gradLevel" x1="0" x2="0" y1="0" y2="1">
-                <stop offset="0" stopColor="#06b6d4" stopOpacity="0.2"/>
-                <stop offset="1" stopColor="#06b6d4" stopOpacity="0"/>
-             </linearGradient>
-          </defs>
-          
-          {/* Prediction Zone BG */}
-          <rect x={xNow} y={m.t} width={Math.max(0, w-m.r-xNow)} height={chartH} fill="#0f172a" opacity="0.8"/>
-          
-          {/* Grid & Axes */}
-          {[0, 0.25, 0.5, 0.75, 1].map(p => {
-             const y = m.t + chartH * (1-p);
-             return <g key={p}>
-                <line x1={m.l} y1={y} x2={w-m.r} y2={y} stroke="#1e293b" strokeWidth="1" strokeDasharray="2 2"/>
-                <text x={m.l-5} y={y+3} textAnchor="end" className="text-[9px] fill-blue-500/70 font-mono">{(p*250).toFixed(0)}</text>
-                <text x={w-m.r+5} y={y+3} textAnchor="start" className="text-[9px] fill-cyan-500/70 font-mono">{(p*350).toFixed(0)}</text>
-             </g>
-          })}
-
-          {/* NOW Line */}
-          <line x1={xNow} y1={m.t} x2={xNow} y2={h-m.b} stroke="#cbd5e1" strokeWidth="1" strokeDasharray="3 3" opacity="0.5"/>
-          <text x={xNow} y={m.t-5} textAnchor="middle" className="text-[9px] fill-slate-400 font-bold tracking-widest">LIVE</text>
-
-          {/* Data Curves */}
-          {pLevel && <path d={`M${pLevel.split(' ')[0]?.split(',')[0]},${m.t+chartH} ${pLevel.replace(/ /g, ' L')} V${m.t+chartH} Z`} fill="url(#gradLevel)"/>}
-          
-          <polyline points={pTarget} fill="none" stroke="#10b981" strokeWidth="1.5" strokeDasharray="4 4" opacity="0.8"/>
-          <polyline points={pLevel} fill="none" stroke="#06b6d4" strokeWidth="2"/>
-          <polyline points={pFlow} fill="none" stroke="#3b82f6" strokeWidth="1.5" opacity="0.9"/>
-          <polyline points={pDemand} fill="none" stroke="#ef4444" strokeWidth="1.5" opacity="0.9"/>
-          
-          {/* Predictions */}
-          <polyline points={pPredLevel} fill="none" stroke="#fff" strokeWidth="2" strokeDasharray="2 2" opacity="0.4"/>
-          <polyline points={pPredDemand} fill="none" stroke="#ef4444" strokeWidth="1.5" strokeDasharray="2 2" opacity="0.4"/>
-       </svg>
-
-       {/* Bottom Right Legend (Fixed & Overlay) */}
-       <div className="absolute bottom-3 right-3 bg-slate-900/80 backdrop-blur-md border border-slate-700 p-2 rounded-md shadow-2xl z-20 pointer-events-none">
-          <div className="grid grid-cols-2 gap-x-3 gap-y-1 text-[9px]">
-             <div className="flex items-center gap-1.5 text-slate-300"><div className="w-2 h-2 bg-blue-500 rounded-sm"/> 进水 Flow</div>
-             <div className="flex items-center gap-1.5 text-slate-300"><div className="w-2 h-2 bg-cyan-500 rounded-sm"/> 水位 Level</div>
-             <div className="flex items-center gap-1.5 text-slate-300"><div className="w-2 h-2 bg-red-500 rounded-sm"/> 需求 Out</div>
-             <div className="flex items-center gap-1.5 text-slate-300"><div className="w-2 h-2 border-t border-green-500 border-dashed"/> 目标 SP</div>
-             <div className="flex items-center gap-1.5 text-slate-400 col-span-2 opacity-70"><div className="w-2 h-2 border-t border-white border-dotted"/> MPC预测</div>
-          </div>
-       </div>
+      {!results.length ? (
+        <div className="w-full h-full flex items-center justify-center text-xs text-slate-600">运行对比后显示各方案曲线</div>
+      ) : (
+        <svg width={w} height={h} className="absolute inset-0">
+          {[0, 0.5, 1].map(p => (
+            <g key={p}>
+              <line x1={m.l} y1={getYLevel(lMin + p * (lMax - lMin))} x2={w - m.r} y2={getYLevel(lMin + p * (lMax - lMin))} stroke="#1e293b" strokeDasharray="2 2"/>
+              <text x={m.l - 4} y={getYLevel(lMin + p * (lMax - lMin)) + 3} textAnchor="end" className="text-[9px] fill-cyan-500/70 font-mono">{(lMin + p * (lMax - lMin)).toFixed(0)}</text>
+              <line x1={m.l} y1={getYFlow(p * fMax)} x2={w - m.r} y2={getYFlow(p * fMax)} stroke="#1e293b" strokeDasharray="2 2"/>
+              <text x={m.l - 4} y={getYFlow(p * fMax) + 3} textAnchor="end" className="text-[9px] fill-blue-500/70 font-mono">{(p * fMax).toFixed(0)}</text>
+              <text x={getX(p * tEnd)} y={h - 6} textAnchor="middle" className="text-[9px] fill-slate-500 font-mono">{(p * tEnd).toFixed(0)}s</text>
+            </g>
+          ))}
+          <text x={m.l + 4} y={m.t + 8} className="text-[9px] fill-slate-500">水位 m</text>
+          <text x={m.l + 4} y={flowTop + 8} className="text-[9px] fill-slate-500">泵站流量 m³/s</text>
+          <polyline points={line(results[0].trace, 'target', getYLevel)} fill="none" stroke="#cbd5e1" strokeWidth="1" strokeDasharray="4 4" opacity="0.6"/>
+          <polyline points={line(results[0].trace, 'flowOut', getYFlow)} fill="none" stroke="#ef4444" strokeWidth="1" strokeDasharray="4 4" opacity="0.6"/>
+          {results.map((r, i) => (
+            <g key={r.variant.id}>
+              <polyline points={line(r.trace, 'level', getYLevel)} fill="none" stroke={VARIANT_COLORS[i % VARIANT_COLORS.length]} strokeWidth="1.5"/>
+              <polyline points={line(r.trace, 'flowIn', getYFlow)} fill="none" stroke={VARIANT_COLORS[i % VARIANT_COLORS.length]} strokeWidth="1.2" opacity="0.8"/>
+            </g>
+          ))}
+        </svg>
+      )}
     </div>
   );
 };
@@ -311,12 +474,22 @@ const TrendChart: React.FC<{ history: any[], prediction?: any[], faults: any }>
 export default function App() {
   // --- STATE ---
   const [deployedParadigm, setDeployedParadigm] = useState<DesignParadigm>(PARADIGMS[1]);
-  const [activeTab, setActiveTab] = useState<'DESIGN' | 'CONTROL' | 'FAULTS'>('DESIGN');
+  const [projectName, setProjectName] = useState('未命名项目');
+  const [projectError, setProjectError] = useState<string | null>(null);
+  const [activeTab, setActiveTab] = useState<'DESIGN' | 'CONTROL' | 'FAULTS' | 'COSTS'>('DESIGN');
   
   // Sim
-  const [time, setTime] = useState(0);
   const [isRunning, setIsRunning] = useState(true);
-  const [history, setHistory] = useState<any[]>([]);
+  const [speed, setSpeed] = useState(1);
+  const [untilTime, setUntilTime] = useState(300);
+  const [runUntil, setRunUntil] = useState<number | null>(null); // Active run-until target
+  const [computing, setComputing] = useState<number | null>(null); // Target of an instant compute in progress
+  const workerRef = useRef<Worker | null>(null);
+  const computeRun = useRef(0); // Id of the current compute; batches of earlier ones are ignored
+  // Whole-run history lives in a mutable columnar store; the version state re-renders its views
+  const historyStore = useRef(createHistoryStore());
+  const [historyVersion, setHistoryVersion] = useState(0);
+  const [chartPanels, setChartPanels] = useState<ChartPanel[]>(DEFAULT_CHART_PANELS);
   
   // Canvas Nodes & Edges
   const [nodes, setNodes] = useState<CanvasNode[]>([
@@ -333,214 +506,593 @@ export default function App() {
     { id: 'e4', source: 'n4', target: 'n5' }
   ]);
 
-  const [selectedNodeId, setSelectedNodeId] = useState<string | null>(null);
-  const [draggingNode, setDraggingNode] = useState<{id: string, startX: number, startY: number, initialNodeX: number, initialNodeY: number} | null>(null);
-  const [tempEdge, setTempEdge] = useState<{sourceId: string, x1: number, y1: number, x2: number, y2: number} | null>(null);
+  // Selection: the Inspector edits a single node, canvas operations act on the whole set
+  const [selection, setSelection] = useState<string[]>([]);
+  const selectedNodeId = selection.length === 1 ? selection[0] : null;
+  const setSelectedNodeId = (id: string | null) => setSelection(id ? [id] : []);
+  const [draggingNode, setDraggingNode] = useState<{startX: number, startY: number, origin: Record<string, {x: number, y: number}>, before: CanvasDocument} | null>(null);
+  const [marquee, setMarquee] = useState<{x1: number, y1: number, x2: number, y2: number, additive: boolean} | null>(null);
+  const [tempEdge, setTempEdge] = useState<{sourceId: string, sourcePort: PortName, x1: number, y1: number, x2: number, y2: number} | null>(null);
+  const [canvasNotice, setCanvasNotice] = useState<string | null>(null);
+
+  // Viewport: nodes live in world coordinates, the canvas shows them through a pan/zoom transform
+  const canvasRef = useRef<HTMLDivElement>(null);
+  const [canvasSize, setCanvasSize] = useState({ w: 800, h: 400 });
+  const [viewport, setViewport] = useState<Viewport>({ x: 0, y: 0, zoom: 1 });
+  const [snap, setSnap] = useState(true);
+  const [panning, setPanning] = useState<{startX: number, startY: number, originX: number, originY: number} | null>(null);
+  const spaceHeld = useRef(false);
+  const [editHistory, setEditHistory] = useState<EditHistory>(createEditHistory);
+  const lastEditKey = useRef<string | null>(null);
+  const [clipboard, setClipboard] = useState<CanvasDocument | null>(null);
+
+  // Engine: simRef is the authoritative state for the loop, sim mirrors it for rendering
+  const simRef = useRef<SimulationState>(createSimulationState(DEFAULT_DEMAND_PATTERN, DEFAULT_SETPOINT_PATTERN));
+  const [sim, setSim] = useState<SimulationState>(simRef.current);
+  // An edit during an instant compute would be overwritten by its next batch, so it stops the compute
+  const updateSim = (fn: (s: SimulationState) => SimulationState) => {
+    interruptComputing();
+    simRef.current = fn(simRef.current);
+    setSim(simRef.current);
+  };
+  const { time, timeline } = sim;
+  const level = sim.sample?.level ?? INITIAL_LEVEL;
+  const target = sim.sample?.target ?? sim.setpointPattern.base;
+  const activeAlarms = sim.alarms.filter(a => a.clearedAt === null);
+  const unackedAlarms = sim.alarms.filter(a => !a.acknowledged);
+  const [showAlarms, setShowAlarms] = useState(false);
+  const [bottomView, setBottomView] = useState<'TREND' | 'COMPARE' | 'TIMELINE'>('TREND');
+  const [scenarioError, setScenarioError] = useState<string | null>(null);
+  const [comparisonVariants, setComparisonVariants] = useState<ComparisonVariant[]>(() => PARADIGMS.map(p => createVariant(p, p.type)));
+  const [comparisonDuration, setComparisonDuration] = useState(300);
+  const [comparisonResults, setComparisonResults] = useState<ComparisonResult[]>([]);
+  const [comparisonProgress, setComparisonProgress] = useState<number | null>(null);
+  const comparisonAbort = useRef<AbortController | null>(null);
 
   // Controls
-  const [activeDemandPattern, setActiveDemandPattern] = useState<DisturbanceConfig>({ type: 'STEP', base: 50, amplitude: 100, frequency: 0.1, active: true });
-  const [activeSetpointPattern, setActiveSetpointPattern] = useState<DisturbanceConfig>({ type: 'CONSTANT', base: 295, amplitude: 0, frequency: 0, active: true });
   const [disturbanceScope, setDisturbanceScope] = useState<'DEMAND' | 'TARGET'>('DEMAND');
-  const [draftDisturbance, setDraftDisturbance] = useState<DisturbanceConfig>(activeDemandPattern);
-  
-  const [plans, setPlans] = useState<PlanStep[]>([]);
-  const [planDelay, setPlanDelay] = useState(10);
-  const [faults, setFaults] = useState<FaultState>({ leakage: {active:false, value:0}, pumpEfficiency: {active:false, value:0}, sensorDrift: {active:false, value:0} });
+  const [draftDisturbance, setDraftDisturbance] = useState<DisturbanceConfig>(sim.demandPattern);
+  const [planTime, setPlanTime] = useState(10);
+  const [profileError, setProfileError] = useState<string | null>(null);
+  const [tuning, setTuning] = useState<ControlTuning>(DEFAULT_CONTROL_TUNING);
+  const [mismatch, setMismatch] = useState<ModelMismatch>(DEFAULT_MODEL_MISMATCH);
+  const [tuningAlgorithm, setTuningAlgorithm] = useState<ControlAlgorithm>(deployedParadigm.algorithm);
+  const [nodeFaults, setNodeFaults] = useState<NodeFault[]>([]);
+  const [faults, setFaults] = useState<FaultState>(DEFAULT_FAULTS);
+  const [costs, setCosts] = useState<CostConfig>(DEFAULT_COST_CONFIG);
 
   // AI & Refs
   const [messages, setMessages] = useState<ChatMessage[]>([]);
   const [isStreaming, setIsStreaming] = useState(false);
   const [showChat, setShowChat] = useState(true);
-  const pipeBufferRef = useRef<number[]>(new Array(BUFFER_SIZE).fill(0));
-  const tankLevelRef = useRef(295);
-  const mpcStateRef = useRef({ lastOut: 0 });
-  const integralRef = useRef(0);
-  const lastErrorRef = useRef(0);
 
   // Sync Draft
   useEffect(() => {
-     if (disturbanceScope === 'DEMAND') setDraftDisturbance(activeDemandPattern);
-     else setDraftDisturbance(activeSetpointPattern);
+     if (disturbanceScope === 'DEMAND') setDraftDisturbance(simRef.current.demandPattern);
+     else setDraftDisturbance(simRef.current.setpointPattern);
   }, [disturbanceScope]);
 
+  // --- VIEWPORT ---
+  const toWorld = (clientX: number, clientY: number) => {
+    const rect = canvasRef.current?.getBoundingClientRect();
+    return screenToWorld(viewport, clientX - (rect?.left ?? 0), clientY - (rect?.top ?? 0));
+  };
+  const snapPoint = (v: number) => snap ? snapToGrid(v) : v;
+  const zoomBy = (factor: number) => setViewport(vp => zoomAt(vp, canvasSize.w / 2, canvasSize.h / 2, factor));
+  const fitToContent = () => setViewport(fitViewport(nodes, canvasSize.w, canvasSize.h));
+  const centerOn = (x: number, y: number) => setViewport(vp => ({ ...vp, x: canvasSize.w / 2 - x * vp.zoom, y: canvasSize.h / 2 - y * vp.zoom }));
+
+  useEffect(() => {
+    const el = canvasRef.current;
+    if (!el) return;
+    const ro = new ResizeObserver(e => setCanvasSize({ w: e[0].contentRect.width, h: e[0].contentRect.height }));
+    ro.observe(el);
+    // Native listener: React's wheel handler is passive and cannot stop the page from scrolling
+    const wheel = (e: WheelEvent) => {
+      e.preventDefault();
+      const rect = el.getBoundingClientRect();
+      setViewport(vp => zoomAt(vp, e.clientX - rect.left, e.clientY - rect.top, Math.exp(-e.deltaY * 0.0015)));
+    };
+    el.addEventListener('wheel', wheel, { passive: false });
+    const key = (e: KeyboardEvent) => { if (e.code === 'Space') spaceHeld.current = e.type === 'keydown'; };
+    window.addEventListener('keydown', key);
+    window.addEventListener('keyup', key);
+    return () => {
+      ro.disconnect();
+      el.removeEventListener('wheel', wheel);
+      window.removeEventListener('keydown', key);
+      window.removeEventListener('keyup', key);
+    };
+  }, []);
+
   // --- INTERACTIONS ---
   const handleDrop = (e: React.DragEvent) => {
     e.preventDefault();
     const type = e.dataTransfer.getData('nodeType') as NodeType;
     const label = e.dataTransfer.getData('nodeLabel');
     if (type) {
-      const rect = e.currentTarget.getBoundingClientRect();
-      const x = e.clientX - rect.left;
-      const y = e.clientY - rect.top;
+      const p = toWorld(e.clientX, e.clientY);
       const newNode: CanvasNode = {
-        id: `n${Date.now()}`, type, x, y, label,
-        data: type === 'RESERVOIR' ? { area: 100 } : type === 'PIPE' ? { delay: 5 } : type === 'PUMP' ? { efficiency: 100 } : {}
+        id: `n${Date.now()}`, type, x: snapPoint(p.x), y: snapPoint(p.y), label,
+        data: { ...DEFAULT_NODE_DATA[type] }
       };
+      checkpoint();
       setNodes(prev => [...prev, newNode]);
       setSelectedNodeId(newNode.id);
     }
   };
 
-  // Node Dragging
+  // Node Dragging: shift-click toggles selection, dragging a selected node moves the whole group
+  const handleNodeMouseDown = (e: React.MouseEvent, id: string) => {
+    if (e.button !== 0 || spaceHeld.current) return; // Let the canvas pan
+    e.stopPropagation();
+    if (e.shiftKey) {
+      setSelection(sel => sel.includes(id) ? sel.filter(x => x !== id) : [...sel, id]);
+      return;
+    }
+    const group = selection.includes(id) ? selection : [id];
+    if (!selection.includes(id)) setSelection([id]);
+    const origin: Record<string, {x: number, y: number}> = {};
+    nodes.forEach(n => { if (group.includes(n.id)) origin[n.id] = { x: n.x, y: n.y }; });
+    setDraggingNode({ startX: e.clientX, startY: e.clientY, origin, before: getDocument() });
+  };
+
+  // Middle button or Space+drag pans; a left drag on empty canvas draws a selection box (shift adds)
+  const handleCanvasMouseDown = (e: React.MouseEvent) => {
+    if (e.button === 1 || (e.button === 0 && spaceHeld.current)) {
+      e.preventDefault();
+      setPanning({ startX: e.clientX, startY: e.clientY, originX: viewport.x, originY: viewport.y });
+      return;
+    }
+    if (e.button !== 0) return;
+    const { x, y } = toWorld(e.clientX, e.clientY);
+    setMarquee({ x1: x, y1: y, x2: x, y2: y, additive: e.shiftKey });
+    if (!e.shiftKey) setSelection([]);
+  };
+
   useEffect(() => {
     const move = (e: MouseEvent) => {
+      if (panning) {
+        setViewport(vp => ({ ...vp, x: panning.originX + e.clientX - panning.startX, y: panning.originY + e.clientY - panning.startY }));
+      }
       if (draggingNode) {
-        setNodes(prev => prev.map(n => n.id === draggingNode.id ? { ...n, x: draggingNode.initialNodeX + (e.clientX - draggingNode.startX), y: draggingNode.initialNodeY + (e.clientY - draggingNode.startY) } : n));
+        const dx = (e.clientX - draggingNode.startX) / viewport.zoom;
+        const dy = (e.clientY - draggingNode.startY) / viewport.zoom;
+        setNodes(prev => prev.map(n => draggingNode.origin[n.id] ? { ...n, x: snapPoint(draggingNode.origin[n.id].x + dx), y: snapPoint(draggingNode.origin[n.id].y + dy) } : n));
       }
-      if (tempEdge) {
-         // Update temp edge target
-         const rect = document.getElementById('canvas-area')?.getBoundingClientRect();
-         if (rect) {
-            setTempEdge(prev => prev ? { ...prev, x2: e.clientX - rect.left, y2: e.clientY - rect.top } : null);
-         }
+      if (tempEdge || marquee) {
+         const p = toWorld(e.clientX, e.clientY);
+         if (tempEdge) setTempEdge(prev => prev ? { ...prev, x2: p.x, y2: p.y } : null);
+         if (marquee) setMarquee(prev => prev ? { ...prev, x2: p.x, y2: p.y } : null);
       }
     };
-    const up = () => { setDraggingNode(null); setTempEdge(null); };
+    const up = (e: MouseEvent) => {
+      if (draggingNode && (e.clientX !== draggingNode.startX || e.clientY !== draggingNode.startY)) {
+        lastEditKey.current = null;
+        setEditHistory(h => pushEdit(h, draggingNode.before));
+      }
+      if (marquee) {
+        const hits = nodesInRect(nodes, marquee.x1, marquee.y1, marquee.x2, marquee.y2);
+        setSelection(sel => marquee.additive ? [...sel, ...hits.filter(id => !sel.includes(id))] : hits);
+      }
+      setDraggingNode(null); setTempEdge(null); setMarquee(null); setPanning(null);
+    };
     window.addEventListener('mousemove', move);
     window.addEventListener('mouseup', up);
     return () => { window.removeEventListener('mousemove', move); window.removeEventListener('mouseup', up); }
-  }, [draggingNode, tempEdge]);
+  }, [draggingNode, tempEdge, marquee, panning, nodes, viewport, snap]);
 
   // Connection Logic
-  const handleStartConnect = (e: React.MouseEvent, nodeId: string) => {
+  const handleStartConnect = (e: React.MouseEvent, nodeId: string, port: PortName) => {
      const node = nodes.find(n => n.id === nodeId);
      if (node) {
-        const rect = e.currentTarget.getBoundingClientRect(); // Port rect (ignored mainly, use node pos)
-        // Calculate relative pos of port in canvas. 
-        // Node X/Y is center. Output port is at X + width/2.
-        // Approx width based on component type... simplified to Node X + 20
-        const canvasRect = document.getElementById('canvas-area')?.getBoundingClientRect();
-        if (canvasRect) {
-           setTempEdge({
-              sourceId: nodeId,
-              x1: node.x + 20, 
-              y1: node.y,
-              x2: e.clientX - canvasRect.left,
-              y2: e.clientY - canvasRect.top
-           });
-        }
+        const from = getPortPosition(node, port);
+        const to = toWorld(e.clientX, e.clientY);
+        setTempEdge({ sourceId: nodeId, sourcePort: port, x1: from.x, y1: from.y, x2: to.x, y2: to.y });
      }
   };
 
-  const handleEndConnect = (e: React.MouseEvent, nodeId: string) => {
-     if (tempEdge && tempEdge.sourceId !== nodeId) {
-        // Check if edge exists
-        const exists = edges.find(e => e.source === tempEdge.sourceId && e.target === nodeId);
-        if (!exists) {
-           setEdges(prev => [...prev, { id: `e${Date.now()}`, source: tempEdge.sourceId, target: nodeId }]);
+  const handleEndConnect = (e: React.MouseEvent, nodeId: string, port: PortName) => {
+     if (tempEdge) {
+        const edge = { source: tempEdge.sourceId, sourcePort: tempEdge.sourcePort, target: nodeId, targetPort: port };
+        const problem = checkConnection(nodes, edges, edge);
+        if (problem) {
+           setCanvasNotice(problem);
+        } else {
+           checkpoint();
+           setEdges(prev => [...prev, { id: `e${Date.now()}`, ...edge }]);
         }
      }
      setTempEdge(null);
   };
 
+  const updateNodeData = (id: string, patch: Record<string, any>) => {
+    checkpoint(`data:${id}:${Object.keys(patch).join(',')}`);
+    setNodes(prev => prev.map(n => n.id === id ? { ...n, data: { ...n.data, ...patch } } : n));
+  };
+
+  // --- EDIT HISTORY & CLIPBOARD ---
+  const getDocument = (): CanvasDocument => ({ nodes, edges, nodeFaults });
+  // Timeline events aimed at nodes the edit removed stay put and are skipped until undo restores the node
+  const setDocument = (doc: CanvasDocument) => {
+    setNodes(doc.nodes);
+    setEdges(doc.edges);
+    setNodeFaults(doc.nodeFaults);
+  };
+
+  // Snapshot before an edit; consecutive edits with the same key (one slider, one field) make a single undo step
+  const checkpoint = (key?: string) => {
+    if (key && key === lastEditKey.current) return;
+    lastEditKey.current = key ?? null;
+    setEditHistory(h => pushEdit(h, getDocument()));
+  };
+
+  const stepHistory = (result: { doc: CanvasDocument, history: EditHistory } | null) => {
+    if (!result) return;
+    lastEditKey.current = null;
+    setDocument(result.doc);
+    setEditHistory(result.history);
+    setSelection(sel => sel.filter(id => result.doc.nodes.some(n => n.id === id)));
+  };
+  const undo = () => stepHistory(undoEdit(editHistory, getDocument()));
+  const redo = () => stepHistory(redoEdit(editHistory, getDocument()));
+
+  const deleteNodes = (ids: string[]) => {
+    if (!ids.length) return;
+    checkpoint();
+    setDocument(removeNodes(getDocument(), ids));
+    setSelection([]);
+  };
+
+  const copySelection = () => {
+    if (selection.length) setClipboard(extractSubgraph(getDocument(), selection));
+  };
+
+  const pasteClipboard = () => {
+    if (!clipboard?.nodes.length) return;
+    checkpoint();
+    const offset = snap ? 2 * GRID_SIZE : 30;
+    const pasted = pasteSubgraph(getDocument(), clipboard, offset, offset);
+    setDocument(pasted.doc);
+    setSelection(pasted.ids);
+    // Repeated pastes cascade instead of stacking on the same spot
+    setClipboard(extractSubgraph(pasted.doc, pasted.ids));
+  };
+
+  useEffect(() => {
+    const onKey = (e: KeyboardEvent) => {
+      const target = e.target as HTMLElement;
+      if (target.isContentEditable || ['INPUT', 'TEXTAREA', 'SELECT'].includes(target.tagName)) return;
+      const mod = e.ctrlKey || e.metaKey;
+      const key = e.key.toLowerCase();
+      if (mod && key === 'z') { e.preventDefault(); if (e.shiftKey) redo(); else undo(); }
+      else if (mod && key === 'y') { e.preventDefault(); redo(); }
+      else if (mod && key === 'c') copySelection();
+      else if (mod && key === 'v') { e.preventDefault(); pasteClipboard(); }
+      else if (mod && key === 'a') { e.preventDefault(); setSelection(nodes.map(n => n.id)); }
+      else if (key === 'delete' || key === 'backspace') { e.preventDefault(); deleteNodes(selection); }
+      else if (key === 'escape') setSelection([]);
+    };
+    window.addEventListener('keydown', onKey);
+    return () => window.removeEventListener('keydown', onKey);
+  });
+
   const applyParadigm = (p: DesignParadigm) => {
+    stopComputing();
+    checkpoint();
     setDeployedParadigm(p);
-    setNodes([
+    setTuningAlgorithm(p.algorithm);
+    const templateNodes: CanvasNode[] = [
       { id: 'n1', type: 'SOURCE', x: 80, y: 180, label: '水源地', data: {} },
       { id: 'n2', type: 'PUMP', x: 200, y: 180, label: '加压泵站', data: { efficiency: 100 } },
       { id: 'n3', type: 'PIPE', x: 380, y: 180, label: '输水干渠', data: { delay: 5.0 } },
       { id: 'n4', type: 'RESERVOIR', x: 550, y: 180, label: '调蓄池', data: { area: p.tankArea } },
       { id: 'n5', type: 'DEMAND', x: 700, y: 180, label: '市政管网', data: {} },
-    ]);
+    ];
+    setNodes(templateNodes);
     setEdges([
        {id: 'e1', source: 'n1', target: 'n2'},
        {id: 'e2', source: 'n2', target: 'n3'},
        {id: 'e3', source: 'n3', target: 'n4'},
        {id: 'e4', source: 'n4', target: 'n5'},
     ]);
-    tankLevelRef.current = 295; integralRef.current = 0;
+    updateSim(resetPlant);
     handleSendMessage(`系统更新：已重置为【${p.name}】范式。`, []);
   };
 
-  // --- PHYSICS LOOP (Adaptive to Topology) ---
+  const topology = useMemo(() => analyzeTopology(nodes, edges), [nodes, edges]);
+  const trendSignals = useMemo(() => getTrendSignals(nodes), [nodes]);
+  const controlledReservoir = nodes.find(n => n.id === topology.controlledReservoirId);
+  const controlledAlarm = activeAlarms.some(a => a.nodeId === topology.controlledReservoirId);
+  const issues = useMemo(() => validateNetwork(nodes, edges, topology), [nodes, edges, topology]);
+  // Tanks as built on the canvas; templates start them at the paradigm's tankArea
+  const tankArea = nodes.filter(n => n.type === 'RESERVOIR').reduce((sum, n) => sum + (n.data.area || 0), 0);
+  const costSummary = useMemo(() => summarizeCosts(sim.energy, costs, deployedParadigm.algorithm, tankArea), [sim.energy, costs, deployedParadigm.algorithm, tankArea]);
+  const tariffGaps = useMemo(() => getTariffGaps(costs.tariff), [costs.tariff]);
+  const updateTariff = (index: number, patch: Partial<TariffPeriod>) =>
+    setCosts(c => ({ ...c, tariff: c.tariff.map((p, i) => i === index ? { ...p, ...patch } : p) }));
+  const blockingIssues = issues.filter(i => i.severity === 'error');
+  // Errors first so a node's badge shows its worst problem
+  const getNodeIssue = (id: string) => blockingIssues.find(i => i.nodeId === id) ?? issues.find(i => i.nodeId === id);
+  const issueEdgeIds = new Set(issues.filter(i => i.edgeId).map(i => i.edgeId));
+
+  // An invalid network never steps: editing one in while running holds the clock until it is fixed
+  const running = isRunning && !blockingIssues.length;
+
+  useEffect(() => {
+    if (!canvasNotice) return;
+    const timer = setTimeout(() => setCanvasNotice(null), 4000);
+    return () => clearTimeout(timer);
+  }, [canvasNotice]);
+
+  const toggleRunning = () => {
+    if (!isRunning && blockingIssues.length) {
+      setCanvasNotice(`存在 ${blockingIssues.length} 个错误，无法启动仿真`);
+      return;
+    }
+    setRunUntil(null);
+    setIsRunning(!isRunning);
+  };
+
+  // --- PROJECT FILES ---
+  const buildProject = () => ({
+    name: projectName, nodes, edges, paradigm: deployedParadigm, tuning, mismatch, faults, nodeFaults,
+    demandPattern: sim.demandPattern, setpointPattern: sim.setpointPattern, timeline: sim.timeline, seed: sim.seed, costs
+  });
+
+  const applyProject = (p: ProjectFile) => {
+    stopComputing();
+    setIsRunning(false);
+    setProjectName(p.name);
+    setNodes(p.nodes);
+    setEdges(p.edges);
+    setDeployedParadigm(p.paradigm);
+    setTuningAlgorithm(p.paradigm.algorithm);
+    setTuning(p.tuning);
+    setMismatch(p.mismatch);
+    setFaults(p.faults);
+    setNodeFaults(p.nodeFaults);
+    setCosts(p.costs);
+    setDraftDisturbance(p.demandPattern);
+    setSelectedNodeId(null);
+    setEditHistory(createEditHistory());
+    lastEditKey.current = null;
+    setViewport(fitViewport(p.nodes, canvasSize.w, canvasSize.h));
+    resetHistory();
+    updateSim(() => loadScenario(p));
+    setProjectError(describeOrphans(p.timeline, p.nodes));
+  };
+
+  // Loaded events whose node is not on the canvas are kept but never fire; the user is told which
+  const describeOrphans = (events: TimelineEvent[], canvas: CanvasNode[]) => {
+    const orphans = getOrphanedEvents(events, canvas);
+    return orphans.length ? `${orphans.length} 个时间线事件引用了不存在的节点，运行时将跳过: ${orphans.map(e => e.id).join(', ')}` : null;
+  };
+
+  const exportProject = () =>
+    downloadBlob(new Blob([serializeProject(buildProject())], { type: 'application/json' }), `${projectName || 'project'}.json`);
+
+  const exportScenario = () => {
+    const text = serializeScenario({ name: projectName, demandPattern: sim.demandPattern, setpointPattern: sim.setpointPattern, timeline: sim.timeline, seed: sim.seed });
+    downloadBlob(new Blob([text], { type: 'application/json' }), `${projectName || 'project'}.scenario.json`);
+  };
+
+  // Stored history with metadata, KPIs, events and alarms, for reports and offline analysis
+  const exportRun = (format: 'CSV' | 'JSON') => {
+    const run = createRunExport(buildProject(), historyStore.current, costSummary, sim.alarms);
+    const base = `${projectName || 'project'}-run-${Math.round(time)}s`;
+    if (format === 'CSV') downloadBlob(new Blob(serializeRunCsv(run, historyStore.current), { type: 'text/csv' }), `${base}.csv`);
+    else downloadBlob(new Blob(serializeRunJson(run, historyStore.current), { type: 'application/json' }), `${base}.json`);
+  };
+
+  // A scenario replaces patterns, timeline and seed and restarts the run on the current canvas
+  const importScenario = async (file: File) => {
+    try {
+      const scenario = parseScenario(await file.text());
+      stopComputing();
+      resetHistory();
+      setDraftDisturbance(scenario.demandPattern);
+      updateSim(() => loadScenario(scenario));
+      setScenarioError(describeOrphans(scenario.timeline, nodes));
+    } catch (err) {
+      setScenarioError(err instanceof Error ? err.message : String(err));
+    }
+  };
+
+  const setTimeline = (next: TimelineEvent[]) => updateSim(s => ({ ...s, timeline: next }));
+
+  const importProject = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    try {
+      applyProject(parseProject(await file.text()));
+    } catch (err) {
+      setProjectError(err instanceof Error ? err.message : String(err));
+    }
+  };
+
+  // Restore the last session once, then autosave a second after the last edit
+  useEffect(() => {
+    const saved = loadAutosave();
+    if (saved) applyProject(saved);
+  }, []);
+
+  useEffect(() => {
+    const timer = setTimeout(() => saveAutosave(buildProject()), 1000);
+    return () => clearTimeout(timer);
+  }, [projectName, nodes, edges, deployedParadigm, tuning, mismatch, faults, nodeFaults, costs, sim.demandPattern, sim.setpointPattern, sim.timeline, sim.seed]);
+
+  const getFaultBadge = (nodeId: string) => {
+    const own = nodeFaults.filter(f => f.nodeId === nodeId && (f.recovery === null || f.recovery > time));
+    if (!own.length) return undefined;
+    return {
+      active: own.some(f => getFaultIntensity(f, time) > 0),
+      title: own.map(f => `${NODE_FAULT_INFO[f.kind].label} @${f.onset}s`).join('\n')
+    };
+  };
+
+  const addNodeFault = (node: CanvasNode) => {
+    const kind = (Object.keys(NODE_FAULT_INFO) as NodeFault['kind'][]).find(k => NODE_FAULT_INFO[k].targets.includes(node.type));
+    if (!kind) return;
+    checkpoint();
+    setNodeFaults(prev => [...prev, {
+      id: `f${Date.now()}`, nodeId: node.id, kind, value: NODE_FAULT_INFO[kind].initial,
+      onset: Math.ceil(time) + 5, rampTime: 5, profile: 'LINEAR', recovery: null
+    }]);
+  };
+
+  const updateNodeFault = (id: string, patch: Partial<NodeFault>) => {
+    checkpoint(`fault:${id}:${Object.keys(patch).join(',')}`);
+    setNodeFaults(prev => prev.map(f => f.id === id ? { ...f, ...patch } : f));
+  };
+
+  // --- SIMULATION DRIVER ---
+  const simInputs = useMemo<SimulationInputs>(
+    () => ({ nodes, edges, paradigm: deployedParadigm, faults, nodeFaults, tuning, mismatch }),
+    [nodes, edges, deployedParadigm, faults, nodeFaults, tuning, mismatch]
+  );
+
+  const appendHistory = (samples: HistorySample[]) => {
+    appendSamples(historyStore.current, samples);
+    setHistoryVersion(historyStore.current.version);
+  };
+
+  const resetHistory = () => {
+    clearHistory(historyStore.current);
+    setHistoryVersion(historyStore.current.version);
+  };
+
+  // Steps owed by the wall clock at the current speed, run in one batch per tick with a single history update
   useEffect(() => {
-    if (!isRunning) return;
+    if (!running) return;
+    let last = performance.now();
+    let owed = 0;
     const interval = setInterval(() => {
-      setTime(t => {
-        const nextT = t + DT;
-        // Plans
-        plans.forEach(p => {
-           if (p.status === 'pending' && nextT >= p.triggerTime) {
-              p.status = 'completed';
-              if (p.actionType === 'CHANGE_DISTURBANCE') setActiveDemandPattern(p.payload as any);
-              else setActiveSetpointPattern(p.payload as any);
-           }
-        });
-
-        // Topology Analysis for Sim
-        const reservoir = nodes.find(n => n.type === 'RESERVOIR');
-        // Find feeding chain (simplified for robustness): Pump -> Pipe -> Reservoir
-        // In a real graph solver, we'd traverse. Here we find nodes by type to apply params.
-        const pipe = nodes.find(n => n.type === 'PIPE');
-        const pump = nodes.find(n => n.type === 'PUMP');
-        
-        // If critical nodes missing, default to safe values
-        const area = reservoir?.data.area || deployedParadigm.tankArea;
-        const delay = pipe?.data.delay || 5.0;
-        const eff = pump?.data.efficiency || 100;
-
-        // Check connectivity: Is Pump connected to Pipe connected to Reservoir?
-        // Simplified connectivity check for visual feedback effect
-        const isConnected = edges.some(e => e.target === reservoir?.id) || true; 
-
-        // Dynamics
-        const demand = getDisturbanceValue(nextT, activeDemandPattern);
-        const target = getDisturbanceValue(nextT, activeSetpointPattern);
-        const error = target - tankLevelRef.current;
-        
-        // Control
-        let out = 0;
-        if (isConnected) {
-            if (deployedParadigm.algorithm === 'PID') {
-              integralRef.current += error * DT;
-              if(Math.abs(integralRef.current)>500) integralRef.current = Math.sign(integralRef.current)*500;
-              out = (area>100?5:2)*error + 0.5*integralRef.current + 0.1*(error-lastErrorRef.current)/DT + 50;
-            } else if (deployedParadigm.algorithm === 'MPC') {
-               out = mpcStateRef.current.lastOut + error * 2.5; 
-            } else {
-               out = 4 * error + 50; 
-            }
+      const now = performance.now();
+      owed = Math.min(owed + (now - last) / 1000 * speed, MAX_STEPS_PER_TICK * DT);
+      last = now;
+      let s = simRef.current;
+      const samples: HistorySample[] = [];
+      let stop = false;
+      while (owed >= DT - 1e-9 && !stop) {
+        if (runUntil !== null && s.time >= runUntil - 1e-9) { stop = true; break; }
+        owed -= DT;
+        s = stepSimulation(s, simInputs, DT);
+        if (s.sample) samples.push(s.sample);
+        if (s.pauseRequested) {
+          s = { ...s, pauseRequested: false };
+          stop = true;
         }
-        lastErrorRef.current = error;
-        
-        let maxQ = 250 * (eff/100);
-        if (faults.pumpEfficiency.active) maxQ *= (1 - faults.pumpEfficiency.value/100);
-        out = Math.max(0, Math.min(maxQ, out));
-        mpcStateRef.current.lastOut = out;
-
-        // Buffer
-        const buf = pipeBufferRef.current;
-        buf.push(out);
-        if(buf.length > BUFFER_SIZE) buf.shift();
-        const idx = Math.floor(delay/DT);
-        const inflow = buf.length >= idx ? buf[buf.length - idx] : 0;
-        
-        let net = inflow - demand;
-        if (faults.leakage.active) net -= (faults.leakage.value/10)*Math.sqrt(Math.max(0, tankLevelRef.current));
-        
-        // Physics Update
-        if (isConnected) {
-            tankLevelRef.current = Math.max(0, tankLevelRef.current + (net*DT)/area);
-        }
-
-        setHistory(p => {
-           const next = [...p, { t: nextT, level: tankLevelRef.current, target, flowIn: out, flowOut: demand }];
-           return next.length > MAX_HISTORY ? next.slice(-MAX_HISTORY) : next;
-        });
-        return nextT;
-      });
-    }, DT * 1000);
+      }
+      if (s !== simRef.current) updateSim(() => s);
+      if (samples.length) appendHistory(samples);
+      if (stop) {
+        setIsRunning(false);
+        setRunUntil(null);
+      }
+    }, TICK_MS);
     return () => clearInterval(interval);
-  }, [isRunning, deployedParadigm, activeDemandPattern, activeSetpointPattern, faults, plans, nodes, edges]);
+  }, [running, speed, runUntil, simInputs]);
+
+  const stepOnce = () => {
+    if (blockingIssues.length || computing !== null) return;
+    setIsRunning(false);
+    const s = stepSimulation(simRef.current, simInputs, DT);
+    updateSim(() => ({ ...s, pauseRequested: false }));
+    if (s.sample) appendHistory([s.sample]);
+  };
+
+  const startRunUntil = () => {
+    if (blockingIssues.length || untilTime <= time) return;
+    setRunUntil(untilTime);
+    setIsRunning(true);
+  };
+
+  // Run to the target time in a Web Worker, streaming state and history back in batches
+  const computeInstantly = () => {
+    if (blockingIssues.length || untilTime <= time || computing !== null) return;
+    setIsRunning(false);
+    setRunUntil(null);
+    const worker = new Worker(new URL('./services/simulationWorker.ts', import.meta.url), { type: 'module' });
+    const run = ++computeRun.current;
+    workerRef.current = worker;
+    setComputing(untilTime);
+    worker.onmessage = (e: MessageEvent<WorkerBatch>) => {
+      if (e.data.run !== computeRun.current) return;
+      simRef.current = { ...e.data.state, pauseRequested: false };
+      setSim(simRef.current);
+      if (e.data.samples.length) appendHistory(e.data.samples);
+      if (e.data.done) stopComputing();
+    };
+    worker.onerror = e => {
+      setCanvasNotice(`后台计算失败: ${e.message}`);
+      stopComputing();
+    };
+    worker.postMessage({ state: simRef.current, inputs: simInputs, until: untilTime, run } as WorkerRequest);
+  };
+
+  const stopComputing = () => {
+    computeRun.current++;
+    workerRef.current?.terminate();
+    workerRef.current = null;
+    setComputing(null);
+  };
+
+  // Keeps what was computed so far and tells the user why the compute ended
+  const interruptComputing = () => {
+    if (!workerRef.current) return;
+    stopComputing();
+    setCanvasNotice('编辑已生效，后台计算已停止');
+  };
+
+  // The worker runs on the inputs it was started with
+  useEffect(() => interruptComputing(), [simInputs]);
+
+  useEffect(() => () => workerRef.current?.terminate(), []);
+
+  // --- COMPARISON ---
+  // Replay the current scenario and seed from t = 0 for every variant, off the live run
+  const startComparison = async () => {
+    comparisonAbort.current?.abort();
+    const controller = new AbortController();
+    comparisonAbort.current = controller;
+    setComparisonProgress(0);
+    const results = await runComparison(comparisonVariants, sim, simInputs, costs, comparisonDuration, {
+      onProgress: setComparisonProgress,
+      signal: controller.signal
+    });
+    if (controller.signal.aborted) return;
+    setComparisonResults(results);
+    setComparisonProgress(null);
+  };
+
+  const cancelComparison = () => {
+    comparisonAbort.current?.abort();
+    setComparisonProgress(null);
+  };
+
+  const updateVariant = (id: string, paradigm: Partial<DesignParadigm>) =>
+    setComparisonVariants(prev => prev.map(v => v.id === id ? { ...v, paradigm: { ...v.paradigm, ...paradigm } } : v));
+
+  const addVariant = () =>
+    setComparisonVariants(prev => [...prev, createVariant({ ...deployedParadigm }, undefined, `方案 ${prev.length + 1}`)]);
 
   // AI
+  const getControlParams = (targetLevel: number): ControlParams => {
+    const algorithm = deployedParadigm.algorithm;
+    if (algorithm === 'MPC') return { algorithm, targetLevel, mpc: tuning.MPC, mismatch };
+    return { algorithm, targetLevel, gains: tuning[algorithm], mismatch: algorithm === 'SMITH' ? mismatch : undefined };
+  };
+
   const handleSendMessage = async (text: string, att: Attachment[]) => {
     const userMsg: ChatMessage = { id: Date.now().toString(), sender: Sender.User, text, attachments: att, timestamp: new Date() };
     setMessages(p => [...p, userMsg]);
     setIsStreaming(true);
     try {
-       const last = history[history.length-1] || { level: 0, target: 0, flowIn: 0, flowOut: 0 };
-       const ctx = { state: { time, waterLevel: tankLevelRef.current, sensorLevel: last.level, targetLevel: last.target, inflowAtPump: last.flowIn, inflowAtTank: 0, outflow: last.flowOut, valveOpen: 100 }, params: { kp:1, ki:0, kd:0, targetLevel: last.target }, faults, paradigm: deployedParadigm };
+       const last = sim.sample || { level: 0, measured: 0, target: 0, flowIn: 0, flowOut: 0 };
+       const tankInflow = topology.controlledReservoirId ? sim.sample?.nodes[topology.controlledReservoirId]?.inflow ?? 0 : 0;
+       const ctx = { state: { time, waterLevel: level, sensorLevel: last.measured, targetLevel: last.target, inflowAtPump: last.flowIn, inflowAtTank: tankInflow, outflow: last.flowOut, valveOpen: 100 }, params: getControlParams(last.target), faults, paradigm: deployedParadigm };
        const stream = streamGeminiResponse(messages, text, att, ctx);
        let full = '';
        const mid = (Date.now()+1).toString();
@@ -550,20 +1102,32 @@ export default function App() {
     setIsStreaming(false);
   };
 
+  const handleProfileUpload = async (e: React.ChangeEvent<HTMLInputElement>) => {
+      const file = e.target.files?.[0];
+      e.target.value = '';
+      if (!file) return;
+      try {
+          const profile = parseDemandProfile(await file.text());
+          setDraftDisturbance(d => ({ ...d, type: 'CSV_PROFILE', profile, profileName: file.name }));
+          setProfileError(null);
+      } catch (err) {
+          setProfileError(err instanceof Error ? err.message : String(err));
+      }
+  };
+
   const executeImmediate = () => {
       const scope = disturbanceScope;
       const pattern = {...draftDisturbance};
-      if (scope === 'DEMAND') setActiveDemandPattern(pattern);
-      else setActiveSetpointPattern(pattern);
+      updateSim(s => setPattern(s, scope, pattern));
       handleSendMessage(`操作：立即应用了新的${scope==='DEMAND'?'负载':'目标'}设置。`, []);
   };
   
   const addPlan = () => {
-      setPlans(p => [...p, {
-          id: Date.now().toString(), triggerTime: time + planDelay, description: `${planDelay}s 后变更设置`,
-          actionType: disturbanceScope === 'DEMAND' ? 'CHANGE_DISTURBANCE' : 'CHANGE_SETPOINT',
-          payload: {...draftDisturbance}, status: 'pending'
-      }].sort((a,b)=>a.triggerTime - b.triggerTime));
+      const event: TimelineEvent = {
+          id: `t${Date.now()}`, time: planTime, label: '',
+          action: { type: disturbanceScope === 'DEMAND' ? 'DEMAND' : 'SETPOINT', pattern: {...draftDisturbance} }
+      };
+      updateSim(s => ({ ...s, timeline: [...s.timeline, event] }));
   };
 
   // --- RENDER ---
@@ -575,11 +1139,23 @@ export default function App() {
             <div className="w-8 h-8 bg-gradient-to-br from-blue-500 to-cyan-600 rounded-lg flex items-center justify-center shadow-lg shadow-cyan-900/50"><Activity className="text-white" size={18}/></div>
             <div><h1 className="font-bold text-sm text-slate-100 tracking-tight">水利仿真平台 Pro</h1><div className="text-[10px] text-slate-500 font-mono">{deployedParadigm.algorithm} ENGINE</div></div>
          </div>
+         <div className="px-4 py-2 border-b border-slate-800 space-y-1">
+            <div className="flex items-center gap-2">
+               <input value={projectName} onChange={e => setProjectName(e.target.value)} className="flex-1 min-w-0 bg-transparent text-[11px] text-slate-300 outline-none border-b border-transparent focus:border-cyan-500" title="项目名称"/>
+               <button onClick={exportProject} title="导出项目 JSON" className="text-slate-500 hover:text-cyan-400"><Download size={14}/></button>
+               <label title="导入项目 JSON" className="text-slate-500 hover:text-cyan-400 cursor-pointer">
+                  <FolderOpen size={14}/>
+                  <input type="file" accept=".json,application/json" onChange={importProject} className="hidden"/>
+               </label>
+            </div>
+            {projectError && <div className="text-[10px] text-red-400 flex justify-between gap-2"><span>{projectError}</span><X size={10} className="cursor-pointer shrink-0 mt-0.5" onClick={() => setProjectError(null)}/></div>}
+         </div>
          
          <div className="flex border-b border-slate-800 bg-slate-900">
             <button onClick={()=>setActiveTab('DESIGN')} className={`flex-1 py-3 text-[10px] font-bold flex flex-col items-center gap-1 border-b-2 transition-all ${activeTab==='DESIGN'?'border-cyan-500 text-cyan-400 bg-slate-800/50':'border-transparent text-slate-500 hover:text-slate-300'}`}><PenTool size={14}/> 建模 DESIGN</button>
             <button onClick={()=>setActiveTab('CONTROL')} className={`flex-1 py-3 text-[10px] font-bold flex flex-col items-center gap-1 border-b-2 transition-all ${activeTab==='CONTROL'?'border-purple-500 text-purple-400 bg-slate-800/50':'border-transparent text-slate-500 hover:text-slate-300'}`}><Sliders size={14}/> 控制 CONTROL</button>
             <button onClick={()=>setActiveTab('FAULTS')} className={`flex-1 py-3 text-[10px] font-bold flex flex-col items-center gap-1 border-b-2 transition-all ${activeTab==='FAULTS'?'border-red-500 text-red-400 bg-slate-800/50':'border-transparent text-slate-500 hover:text-slate-300'}`}><AlertTriangle size={14}/> 故障 FAULT</button>
+            <button onClick={()=>setActiveTab('COSTS')} className={`flex-1 py-3 text-[10px] font-bold flex flex-col items-center gap-1 border-b-2 transition-all ${activeTab==='COSTS'?'border-amber-500 text-amber-400 bg-slate-800/50':'border-transparent text-slate-500 hover:text-slate-300'}`}><Coins size={14}/> 成本 COST</button>
          </div>
 
          <div className="flex-1 overflow-y-auto p-4 space-y-6 custom-scrollbar">
@@ -615,6 +1191,10 @@ export default function App() {
                                 {deployedParadigm.type === p.type && <div className="w-1.5 h-1.5 rounded-full bg-cyan-500 shadow-[0_0_5px_cyan]"/>}
                              </div>
                              <p className="text-[10px] text-slate-500 group-hover:text-slate-400">{p.description}</p>
+                             <div className="flex gap-3 mt-1.5 text-[10px] font-mono text-slate-500">
+                                <span className="flex items-center gap-1"><Coins size={10}/> {formatYuan(getTankCost(p.tankArea, costs))}</span>
+                                <span className="flex items-center gap-1"><Cpu size={10}/> ¥{costs.computeRate[p.algorithm]}/h</span>
+                             </div>
                           </div>
                        ))}
                     </div>
@@ -630,36 +1210,184 @@ export default function App() {
                       <select value={draftDisturbance.type} onChange={(e) => setDraftDisturbance({...draftDisturbance, type: e.target.value as any})} className="w-full bg-slate-950 border border-slate-700 text-xs p-2 rounded outline-none text-slate-300 focus:border-cyan-500">
                           {DISTURBANCE_OPTIONS.map(o => <option key={o.type} value={o.type}>{o.label}</option>)}
                       </select>
-                      {['base','amplitude','frequency'].map(k => (
+                      {draftDisturbance.type === 'CSV_PROFILE' ? (
+                        <div className="space-y-2">
+                           <label className="flex items-center justify-center gap-2 py-2 border border-dashed border-slate-700 rounded text-[10px] text-slate-400 hover:border-cyan-500 hover:text-cyan-400 cursor-pointer transition-colors">
+                              <Upload size={12}/> 上传 CSV (时间, 数值)
+                              <input type="file" accept=".csv,.txt" onChange={handleProfileUpload} className="hidden"/>
+                           </label>
+                           {profileError ? (
+                             <div className="text-[10px] text-red-400">{profileError}</div>
+                           ) : draftDisturbance.profile?.length ? (
+                             <div className="flex justify-between text-[10px] text-slate-500">
+                                <span className="truncate mr-2">{draftDisturbance.profileName ?? 'profile'}</span>
+                                <span className="font-mono text-slate-300 shrink-0">{draftDisturbance.profile.length} pts / {draftDisturbance.profile[draftDisturbance.profile.length - 1].t.toFixed(0)}s</span>
+                             </div>
+                           ) : (
+                             <div className="text-[10px] text-slate-600">未加载曲线，使用 base 值</div>
+                           )}
+                        </div>
+                      ) : DISTURBANCE_FIELDS.map(k => (
                         <div key={k}>
-                           <div className="flex justify-between text-[10px] text-slate-500 mb-1 capitalize"><span>{k}</span><span className="font-mono text-slate-300">{draftDisturbance[k as keyof DisturbanceConfig]}</span></div>
-                           <input type="range" min={k==='frequency'?0.01:0} max={k==='frequency'?1:350} step={k==='frequency'?0.01:1} value={draftDisturbance[k as keyof DisturbanceConfig] as number} onChange={e=>setDraftDisturbance({...draftDisturbance, [k]: Number(e.target.value)})} className="w-full h-1 bg-slate-800 rounded appearance-none accent-cyan-500"/>
+                           <div className="flex justify-between text-[10px] text-slate-500 mb-1 capitalize"><span>{k}</span><span className="font-mono text-slate-300">{draftDisturbance[k]}</span></div>
+                           <input type="range" min={k==='frequency'?0.01:0} max={k==='frequency'?1:350} step={k==='frequency'?0.01:1} value={draftDisturbance[k]} onChange={e=>setDraftDisturbance({...draftDisturbance, [k]: Number(e.target.value)})} className="w-full h-1 bg-slate-800 rounded appearance-none accent-cyan-500"/>
                         </div>
                       ))}
+                      {(['NOISE', 'BURST', 'RANDOM_WALK'] as DisturbanceType[]).includes(draftDisturbance.type) && (
+                        <div className="flex justify-between items-center text-[10px] text-slate-500">
+                           <span>seed</span>
+                           <input type="number" value={draftDisturbance.seed ?? ''} placeholder="场景种子" onChange={e=>setDraftDisturbance({...draftDisturbance, seed: e.target.value === '' ? undefined : Math.floor(Number(e.target.value))})} className="w-24 bg-slate-950 border border-slate-700 rounded px-1.5 py-0.5 text-right font-mono text-slate-300 outline-none focus:border-cyan-500"/>
+                        </div>
+                      )}
                   </div>
                   <div className="grid grid-cols-2 gap-2">
                       <button onClick={executeImmediate} className="py-2 bg-cyan-600 hover:bg-cyan-500 text-white text-xs font-bold rounded shadow-lg shadow-cyan-900/20 active:scale-95 transition-all">立即执行</button>
                       <button onClick={addPlan} className="py-2 bg-slate-800 hover:bg-slate-700 text-slate-300 text-xs font-bold rounded border border-slate-700 active:scale-95 transition-all">加入序列</button>
                   </div>
-                  <div className="flex items-center gap-2 bg-slate-900 p-2 rounded border border-slate-800"><span className="text-[10px] text-slate-500">延迟(s)</span><input type="number" value={planDelay} onChange={e=>setPlanDelay(Number(e.target.value))} className="w-full bg-transparent text-xs text-center outline-none text-cyan-400 font-mono"/></div>
-                  {plans.length > 0 && <div className="space-y-1 pt-2 border-t border-slate-800"><div className="text-[10px] text-slate-500 font-bold">任务队列 QUEUE</div>{plans.filter(p=>p.status!=='completed').map(p=><div key={p.id} className="bg-slate-900 p-2 rounded border border-slate-800 flex justify-between"><span className="text-[10px] text-slate-300">{p.description}</span><Trash2 size={12} className="text-slate-600 cursor-pointer hover:text-red-400" onClick={()=>setPlans(c=>c.filter(x=>x.id!==p.id))}/></div>)}</div>}
+                  <div className="flex items-center gap-2 bg-slate-900 p-2 rounded border border-slate-800"><span className="text-[10px] text-slate-500 shrink-0">时刻(s)</span><input type="number" min={0} value={planTime} onChange={e=>setPlanTime(Math.max(0, Number(e.target.value)))} className="w-full bg-transparent text-xs text-center outline-none text-cyan-400 font-mono"/></div>
+                  <div className="space-y-1 pt-2 border-t border-slate-800">
+                     <div className="text-[10px] text-slate-500 font-bold flex justify-between items-center">
+                        <span>时间线 TIMELINE</span>
+                        <button onClick={() => setBottomView('TIMELINE')} className="text-cyan-400 hover:text-cyan-300 font-normal">编辑</button>
+                     </div>
+                     {timeline.filter(e => !isEventDone(e, sim.timelineRuntime[e.id])).sort((a, b) => a.time - b.time).map(e => (
+                        <div key={e.id} className="bg-slate-900 p-2 rounded border border-slate-800 flex justify-between gap-2">
+                           <span className="text-[10px] text-slate-300 truncate"><span className="font-mono text-slate-500 mr-1.5">{e.time}s</span>{getEventLabel(e, nodes)}</span>
+                           <Trash2 size={12} className="text-slate-600 cursor-pointer hover:text-red-400 shrink-0" onClick={() => updateSim(s => ({ ...s, timeline: s.timeline.filter(x => x.id !== e.id) }))}/>
+                        </div>
+                     ))}
+                  </div>
+                  <div className="space-y-2 pt-2 border-t border-slate-800">
+                     <div className="text-[10px] text-slate-500 font-bold flex items-center gap-1.5"><Gauge size={10}/> 控制器整定 TUNING</div>
+                     <div className="flex bg-slate-950 p-1 rounded border border-slate-800">
+                        {(['PID', 'SMITH', 'MPC'] as ControlAlgorithm[]).map(a => (
+                           <button key={a} onClick={() => setTuningAlgorithm(a)} className={`flex-1 py-1 text-[10px] font-bold rounded transition-all ${tuningAlgorithm === a ? 'bg-slate-800 text-purple-400 shadow-sm' : 'text-slate-500 hover:text-slate-300'}`}>{a}{deployedParadigm.algorithm === a && ' ●'}</button>
+                        ))}
+                     </div>
+                     <div className="bg-slate-900 border border-slate-800 p-3 rounded-lg space-y-2">
+                        {tuningAlgorithm === 'MPC' ? MPC_FIELDS.map(f => (
+                           <div key={f.key} className="flex items-center justify-between gap-2">
+                              <span className="text-[10px] text-slate-500">{f.label}</span>
+                              <input type="number" step={f.step} value={tuning.MPC[f.key]} onChange={e => setTuning(t => ({ ...t, MPC: { ...t.MPC, [f.key]: Number(e.target.value) } }))} className="w-20 bg-slate-950 border border-slate-700 text-xs text-right px-2 py-1 rounded outline-none text-purple-300 font-mono focus:border-purple-500"/>
+                           </div>
+                        )) : GAIN_FIELDS.map(f => (
+                           <div key={f.key} className="flex items-center justify-between gap-2">
+                              <span className="text-[10px] text-slate-500">{f.label}</span>
+                              <input type="number" step={f.step} value={tuning[tuningAlgorithm][f.key]} onChange={e => setTuning(t => ({ ...t, [tuningAlgorithm]: { ...t[tuningAlgorithm], [f.key]: Number(e.target.value) } }))} className="w-20 bg-slate-950 border border-slate-700 text-xs text-right px-2 py-1 rounded outline-none text-purple-300 font-mono focus:border-purple-500"/>
+                           </div>
+                        ))}
+                        <button onClick={() => setTuning(t => ({ ...t, [tuningAlgorithm]: DEFAULT_CONTROL_TUNING[tuningAlgorithm] }))} className="w-full py-1 text-[10px] text-slate-500 hover:text-slate-300 flex items-center justify-center gap-1"><RotateCcw size={10}/> 恢复默认</button>
+                     </div>
+                     {tuningAlgorithm !== 'PID' && (
+                        <div className="bg-slate-900 border border-slate-800 p-3 rounded-lg space-y-3">
+                           <div className="text-[10px] text-slate-500 font-bold">内部模型失配 Model Mismatch</div>
+                           <InspectorSlider label="面积误差 Area" unit="%" value={mismatch.areaError} min={-50} max={50} valueClass="text-purple-400" accentClass="accent-purple-500" onChange={v => setMismatch(m => ({ ...m, areaError: v }))}/>
+                           <InspectorSlider label="滞后误差 Delay" unit="%" value={mismatch.delayError} min={-50} max={50} valueClass="text-purple-400" accentClass="accent-purple-500" onChange={v => setMismatch(m => ({ ...m, delayError: v }))}/>
+                        </div>
+                     )}
+                  </div>
+               </div>
+            ) : activeTab === 'COSTS' ? (
+               <div className="space-y-4 animate-in fade-in">
+                  <div className="bg-slate-900 border border-slate-800 p-3 rounded-lg space-y-1.5">
+                     <div className="text-[10px] text-slate-500 font-bold flex justify-between"><span>本次运行 Run</span><span className="font-mono">{sim.energy.duration.toFixed(0)} s</span></div>
+                     <CostRow label="泵站耗电" amount={`${costSummary.pumpEnergy.toFixed(1)} kWh`} value={costSummary.energyCost} valueClass="text-orange-300"/>
+                     <CostRow label="水轮机发电" amount={`${costSummary.generation.toFixed(1)} kWh`} value={-costSummary.generationRevenue} valueClass="text-green-400"/>
+                     <CostRow label="溢流损失" amount={`${costSummary.waterLost.toFixed(0)} m³`} value={costSummary.lossCost} valueClass="text-blue-300"/>
+                     <CostRow label="缺水" amount={`${costSummary.unmet.toFixed(0)} m³`} value={costSummary.unmetCost} valueClass="text-red-400"/>
+                     <CostRow label={`算力 ${deployedParadigm.algorithm}`} amount={`¥${costs.computeRate[deployedParadigm.algorithm]}/h`} value={costSummary.computeCost} valueClass="text-purple-400"/>
+                     <div className="border-t border-slate-800 pt-1.5"><CostRow label="运行净成本" amount="" value={costSummary.runCost} valueClass="text-amber-400 font-bold"/></div>
+                  </div>
+                  <div className="bg-slate-900 border border-slate-800 p-3 rounded-lg space-y-1.5">
+                     <div className="text-[10px] text-slate-500 font-bold">以算力换设施 Annualised</div>
+                     <CostRow label="年运行成本 (按本次运行外推)" amount="" value={costSummary.annualOperating}/>
+                     <CostRow label="调蓄池土建" amount={`${tankArea} m²`} value={costSummary.tankCost}/>
+                     <CostRow label="土建年折旧" amount={`${costs.tankLifetime} 年`} value={costSummary.annualCapital}/>
+                     <div className="border-t border-slate-800 pt-1.5"><CostRow label="年总成本" amount="" value={costSummary.annualOperating + costSummary.annualCapital} valueClass="text-amber-400 font-bold"/></div>
+                     <div className="pt-2 space-y-1">
+                        {PARADIGMS.map(p => (
+                           <div key={p.type} className={`flex justify-between text-[10px] font-mono ${p.type === deployedParadigm.type ? 'text-cyan-400' : 'text-slate-500'}`}>
+                              <span className="font-sans">{p.name}</span>
+                              <span title="土建年折旧 / 年算力">{formatYuan(getTankCost(p.tankArea, costs) / Math.max(1, costs.tankLifetime))} / {formatYuan(costs.computeRate[p.algorithm] * 8760)}</span>
+                           </div>
+                        ))}
+                     </div>
+                  </div>
+                  <div className="space-y-2 pt-2 border-t border-slate-800">
+                     <div className="text-[10px] text-slate-500 font-bold flex items-center justify-between">
+                        <span>分时电价 Tariff (¥/kWh)</span>
+                        <button onClick={() => setCosts(c => ({ ...c, tariff: [...c.tariff, { name: '平', start: 0, end: 24, price: 0.68 }] }))} className="text-slate-400 hover:text-amber-400">+ 时段</button>
+                     </div>
+                     {costs.tariff.map((p, i) => (
+                        <div key={i} className="flex items-center gap-1 text-[10px]">
+                           <input value={p.name} onChange={e => updateTariff(i, { name: e.target.value })} className="w-8 bg-slate-950 border border-slate-700 rounded px-1 py-0.5 text-center text-slate-300 outline-none focus:border-amber-500"/>
+                           <input type="number" min={0} max={24} value={p.start} onChange={e => updateTariff(i, { start: Number(e.target.value) })} className="w-10 bg-slate-950 border border-slate-700 rounded px-1 py-0.5 text-right font-mono text-slate-300 outline-none focus:border-amber-500"/>
+                           <span className="text-slate-600">–</span>
+                           <input type="number" min={0} max={24} value={p.end} onChange={e => updateTariff(i, { end: Number(e.target.value) })} className="w-10 bg-slate-950 border border-slate-700 rounded px-1 py-0.5 text-right font-mono text-slate-300 outline-none focus:border-amber-500"/>
+                           <span className="text-slate-600">时</span>
+                           <input type="number" step={0.01} min={0} value={p.price} onChange={e => updateTariff(i, { price: Number(e.target.value) })} className="flex-1 min-w-0 bg-slate-950 border border-slate-700 rounded px-1 py-0.5 text-right font-mono text-amber-400 outline-none focus:border-amber-500"/>
+                           <Trash2 size={12} className="text-slate-600 cursor-pointer hover:text-red-400 shrink-0" onClick={() => setCosts(c => ({ ...c, tariff: c.tariff.filter((_, j) => j !== i) }))}/>
+                        </div>
+                     ))}
+                     {tariffGaps.length > 0 && <div className="text-[10px] text-amber-400">未覆盖的时段按 ¥0 计价: {tariffGaps.join(', ')} 时</div>}
+                     <NumberField label="运行起始时刻 (时)" value={costs.startHour} onChange={v => setCosts(c => ({ ...c, startHour: Math.max(0, Math.min(23, Math.round(v))) }))}/>
+                  </div>
+                  <div className="space-y-2 pt-2 border-t border-slate-800">
+                     <div className="text-[10px] text-slate-500 font-bold">单价 Prices</div>
+                     <NumberField label="上网电价 ¥/kWh" step={0.01} value={costs.generationPrice} onChange={v => setCosts(c => ({ ...c, generationPrice: v }))}/>
+                     <NumberField label="溢流水价 ¥/m³" step={0.1} value={costs.spillPenalty} onChange={v => setCosts(c => ({ ...c, spillPenalty: v }))}/>
+                     <NumberField label="缺水罚金 ¥/m³" step={0.1} value={costs.unmetPenalty} onChange={v => setCosts(c => ({ ...c, unmetPenalty: v }))}/>
+                     <NumberField label="调蓄池造价 ¥/m²" step={100} value={costs.tankUnitCost} onChange={v => setCosts(c => ({ ...c, tankUnitCost: v }))}/>
+                     <NumberField label="折旧年限 年" value={costs.tankLifetime} onChange={v => setCosts(c => ({ ...c, tankLifetime: v }))}/>
+                     {(['PID', 'SMITH', 'MPC'] as ControlAlgorithm[]).map(a => (
+                        <NumberField key={a} label={`${a} 算力 ¥/h`} step={0.01} value={costs.computeRate[a]} onChange={v => setCosts(c => ({ ...c, computeRate: { ...c.computeRate, [a]: v } }))}/>
+                     ))}
+                  </div>
                </div>
             ) : (
                <div className="space-y-3 animate-in fade-in">
                   <div className="bg-red-900/10 border border-red-900/30 p-3 rounded text-[10px] text-red-300">故障注入会即时改变物理参数</div>
-                  {['leakage', 'pumpEfficiency', 'sensorDrift'].map(f => (
-                      // @ts-ignore
+                  {Object.keys(sim.overrides.faults).length > 0 && (
+                     <div className="bg-slate-900 border border-slate-800 p-2 rounded text-[10px] text-slate-400">
+                        时间线已覆盖: {FAULT_FIELDS.filter(f => sim.overrides.faults[f.key]).map(f => `${f.label.split(' ')[0]} ${sim.overrides.faults[f.key]!.active ? '开' : '关'}`).join('，')}
+                     </div>
+                  )}
+                  {FAULT_FIELDS.map(({ key: f, label, unit, max, initial }) => (
                       <div key={f} className={`p-3 rounded border bg-slate-900 ${faults[f].active ? 'border-red-500/50 bg-red-900/5' : 'border-slate-800'}`}>
                           <div className="flex justify-between items-center mb-2">
-                             {/* @ts-ignore */}
-                             <span className="text-xs font-bold text-slate-300 capitalize">{f}</span>
-                             {/* @ts-ignore */}
-                             <div onClick={()=>setFaults(c=>({...c, [f]: {...c[f], active: !c[f].active, value: 20}}))} className={`w-8 h-4 rounded-full relative cursor-pointer transition-colors ${faults[f].active?'bg-red-500':'bg-slate-700'}`}><div className={`absolute top-0.5 w-3 h-3 bg-white rounded-full transition-all ${faults[f].active?'left-4.5':'left-0.5'}`}/></div>
+                             <span className="text-xs font-bold text-slate-300">{label}</span>
+                             <div className="flex items-center gap-2">
+                                {faults[f].active && max > 0 && <span className="text-[10px] font-mono text-red-400">{faults[f].value}{unit}</span>}
+                                <div onClick={()=>setFaults(c=>({...c, [f]: {...c[f], active: !c[f].active, value: initial}}))} className={`w-8 h-4 rounded-full relative cursor-pointer transition-colors ${faults[f].active?'bg-red-500':'bg-slate-700'}`}><div className={`absolute top-0.5 w-3 h-3 bg-white rounded-full transition-all ${faults[f].active?'left-4.5':'left-0.5'}`}/></div>
+                             </div>
                           </div>
-                          {/* @ts-ignore */}
-                          {faults[f].active && <input type="range" max="50" value={faults[f].value} onChange={e=>setFaults(c=>({...c, [f]: {...c[f], value: Number(e.target.value)}}))} className="w-full h-1 bg-slate-800 rounded appearance-none accent-red-500"/>}
+                          {faults[f].active && max > 0 && <input type="range" max={max} value={faults[f].value} onChange={e=>setFaults(c=>({...c, [f]: {...c[f], value: Number(e.target.value)}}))} className="w-full h-1 bg-slate-800 rounded appearance-none accent-red-500"/>}
                       </div>
                   ))}
+                  {nodeFaults.length > 0 && (
+                     <div className="space-y-1 pt-2 border-t border-slate-800">
+                        <div className="text-[10px] text-slate-500 font-bold">节点故障 Node Faults</div>
+                        {nodeFaults.map(f => {
+                           const active = getFaultIntensity(f, time) > 0;
+                           return (
+                              <div key={f.id} onClick={() => { setSelectedNodeId(f.nodeId); setActiveTab('DESIGN'); }} className="bg-slate-900 p-2 rounded border border-slate-800 flex justify-between text-[10px] cursor-pointer hover:border-slate-700">
+                                 <span className={active ? 'text-red-400' : 'text-slate-400'}>{nodes.find(n => n.id === f.nodeId)?.label ?? f.nodeId} · {NODE_FAULT_INFO[f.kind].label}</span>
+                                 <span className="font-mono text-slate-500">{f.onset}s{f.recovery !== null ? `–${f.recovery}s` : '+'}</span>
+                              </div>
+                           );
+                        })}
+                     </div>
+                  )}
+                  <div className="space-y-1 pt-2 border-t border-slate-800">
+                     <div className="text-[10px] text-slate-500 font-bold">事件时间线 Timeline</div>
+                     {sim.log.length === 0 && <div className="text-[10px] text-slate-600">暂无事件</div>}
+                     {[...sim.log].reverse().slice(0, 50).map((e, idx) => (
+                        <div key={idx} className="flex gap-2 text-[10px]">
+                           <span className="font-mono text-slate-600 w-12 shrink-0 text-right">{e.t.toFixed(1)}s</span>
+                           <span className={e.kind === 'FAULT' ? 'text-red-400' : e.kind === 'ALARM' ? 'text-amber-400' : e.kind === 'PUMP' ? 'text-orange-300' : e.kind === 'RECOVERY' ? 'text-green-400' : 'text-cyan-400'}>{e.message}</span>
+                        </div>
+                     ))}
+                  </div>
                </div>
             )}
          </div>
@@ -668,13 +1396,17 @@ export default function App() {
       {/* MIDDLE */}
       <div className="flex-1 flex flex-col min-w-0 bg-slate-950 relative">
          {/* TOP: CANVAS */}
-         <div className="flex-1 relative overflow-hidden group border-b border-slate-800 bg-[#0b1121]" 
+         <div className={`flex-1 relative overflow-hidden group border-b border-slate-800 bg-[#0b1121] ${panning ? 'cursor-grabbing' : ''}`}
               id="canvas-area"
+              ref={canvasRef}
               onDragOver={(e) => e.preventDefault()} 
               onDrop={handleDrop}
+              onMouseDown={handleCanvasMouseDown}
          >
-            <div className="absolute inset-0 opacity-[0.05]" style={{ backgroundImage: 'linear-gradient(#fff 1px, transparent 1px), linear-gradient(90deg, #fff 1px, transparent 1px)', backgroundSize: '40px 40px' }}></div>
-            
+            <div className="absolute inset-0 opacity-[0.05]" style={{ backgroundImage: 'linear-gradient(#fff 1px, transparent 1px), linear-gradient(90deg, #fff 1px, transparent 1px)', backgroundSize: `${GRID_SIZE * 2 * viewport.zoom}px ${GRID_SIZE * 2 * viewport.zoom}px`, backgroundPosition: `${viewport.x}px ${viewport.y}px` }}></div>
+
+            {/* World layer: everything inside is in world coordinates */}
+            <div className="absolute inset-0 origin-top-left" style={{ transform: `translate(${viewport.x}px, ${viewport.y}px) scale(${viewport.zoom})` }}>
             {/* Dynamic Edges */}
             <svg className="absolute inset-0 pointer-events-none z-0 overflow-visible">
                <defs>
@@ -690,11 +1422,23 @@ export default function App() {
                   const n1 = nodes.find(n => n.id === edge.source);
                   const n2 = nodes.find(n => n.id === edge.target);
                   if (!n1 || !n2) return null;
-                  const path = `M${n1.x + 20},${n1.y} C${n1.x + 80},${n1.y} ${n2.x - 80},${n2.y} ${n2.x - 20},${n2.y}`;
+                  const { path, mid } = getEdgePath(getPortPosition(n1, getSourcePort(edge)), getPortPosition(n2, getTargetPort(edge)));
+                  // Dashes travel at a speed proportional to the live flow and stop when it does
+                  const q = sim.sample?.edges[edge.id] ?? 0;
+                  const flowing = q > 1e-3;
+                  const secondary = !isMainOutlet(edge);
                   return (
-                    <g key={edge.id} className="group-edge cursor-pointer pointer-events-auto" onContextMenu={(e) => {e.preventDefault(); setEdges(curr => curr.filter(ed => ed.id !== edge.id))}}>
-                       <path d={path} stroke="#1e293b" strokeWidth="8" fill="none" strokeLinecap="round" className="hover:stroke-red-900/50 transition-colors"/>
-                       <path d={path} stroke="url(#flowGradient)" strokeWidth="3" fill="none" strokeDasharray="10 5" className="animate-[dash_1.5s_linear_infinite]" filter="url(#glow)" opacity="0.8"/>
+                    <g key={edge.id} className="group-edge cursor-pointer pointer-events-auto" onContextMenu={(e) => {e.preventDefault(); checkpoint(); setEdges(curr => curr.filter(ed => ed.id !== edge.id))}}>
+                       <path d={path} stroke={issueEdgeIds.has(edge.id) ? '#7f1d1d' : '#1e293b'} strokeWidth="8" fill="none" strokeLinecap="round" className="hover:stroke-red-900/50 transition-colors"/>
+                       <path d={path} stroke={secondary ? '#f59e0b' : 'url(#flowGradient)'} strokeWidth="3" fill="none" strokeDasharray="10 5" filter="url(#glow)"
+                             opacity={flowing ? 0.8 : 0.25}
+                             style={flowing ? { animation: `dash ${Math.min(20, Math.max(0.1, EDGE_FLOW_PER_CYCLE / q))}s linear infinite` } : undefined}/>
+                       {sim.sample && (
+                          <g transform={`translate(${mid.x},${mid.y})`} className="pointer-events-none">
+                             <rect x="-22" y="-8" width="44" height="14" rx="3" fill="#020617" opacity="0.85"/>
+                             <text y="2.5" textAnchor="middle" fontSize="9" fontFamily="monospace" fill={flowing ? (secondary ? '#fbbf24' : '#67e8f9') : '#475569'}>{q.toFixed(1)}</text>
+                          </g>
+                       )}
                     </g>
                   );
                })}
@@ -703,40 +1447,207 @@ export default function App() {
                   <path d={`M${tempEdge.x1},${tempEdge.y1} C${tempEdge.x1 + 50},${tempEdge.y1} ${tempEdge.x2 - 50},${tempEdge.y2} ${tempEdge.x2},${tempEdge.y2}`} stroke="#ffffff" strokeWidth="2" strokeDasharray="4 4" fill="none" opacity="0.5"/>
                )}
             </svg>
-            <style>{`@keyframes dash { to { stroke-dashoffset: -30; } }`}</style>
+            <style>{`@keyframes dash { to { stroke-dashoffset: -${EDGE_DASH_CYCLE}; } }`}</style>
 
             {/* Nodes */}
             {nodes.map(node => (
                <CanvasNodeComponent 
                   key={node.id} 
                   node={node} 
-                  isSelected={selectedNodeId === node.id}
-                  onMouseDown={(e) => { e.stopPropagation(); setSelectedNodeId(node.id); setDraggingNode({ id: node.id, startX: e.clientX, startY: e.clientY, initialNodeX: node.x, initialNodeY: node.y }); }}
+                  isSelected={selection.includes(node.id)}
+                  issue={getNodeIssue(node.id)}
+                  flow={sim.sample?.nodes[node.id]}
+                  faultBadge={getFaultBadge(node.id)}
+                  onMouseDown={(e) => handleNodeMouseDown(e, node.id)}
                   onStartConnect={handleStartConnect}
                   onEndConnect={handleEndConnect}
                />
             ))}
+
+            {marquee && (
+               <div className="absolute border border-cyan-400/70 bg-cyan-400/10 pointer-events-none z-30"
+                    style={{ left: Math.min(marquee.x1, marquee.x2), top: Math.min(marquee.y1, marquee.y2), width: Math.abs(marquee.x2 - marquee.x1), height: Math.abs(marquee.y2 - marquee.y1) }}/>
+            )}
+            </div>
             
             <div className="absolute top-4 left-4 text-[10px] text-slate-500 font-mono bg-slate-900/80 px-3 py-1.5 rounded-full border border-slate-800 flex items-center gap-2 backdrop-blur">
-               <div className={`w-2 h-2 rounded-full ${isRunning ? 'bg-green-500 animate-pulse' : 'bg-amber-500'}`}/> {isRunning ? 'SIMULATION ACTIVE' : 'PAUSED'}
+               <div className={`w-2 h-2 rounded-full ${computing !== null ? 'bg-cyan-500 animate-pulse' : running ? 'bg-green-500 animate-pulse' : isRunning ? 'bg-red-500' : 'bg-amber-500'}`}/> {computing !== null ? 'COMPUTING' : running ? `SIMULATION ACTIVE ${speed}×` : isRunning ? 'BLOCKED' : 'PAUSED'}
+            </div>
+
+            <div onMouseDown={e => e.stopPropagation()} className="absolute top-4 right-4 flex gap-1 bg-slate-900/80 p-1 rounded-full border border-slate-800 backdrop-blur z-30">
+               {[
+                  { icon: Undo2, title: '撤销 Ctrl+Z', onClick: undo, enabled: editHistory.past.length > 0 },
+                  { icon: Redo2, title: '重做 Ctrl+Shift+Z', onClick: redo, enabled: editHistory.future.length > 0 },
+                  { icon: Copy, title: '复制 Ctrl+C', onClick: copySelection, enabled: selection.length > 0 },
+                  { icon: ClipboardPaste, title: '粘贴 Ctrl+V', onClick: pasteClipboard, enabled: !!clipboard?.nodes.length },
+                  { icon: Trash2, title: '删除 Delete', onClick: () => deleteNodes(selection), enabled: selection.length > 0 },
+               ].map(({ icon: Icon, title, onClick, enabled }) => (
+                  <button key={title} title={title} onClick={onClick} disabled={!enabled} className="p-1.5 rounded-full text-slate-400 hover:text-white hover:bg-slate-800 disabled:opacity-30 disabled:hover:bg-transparent"><Icon size={12}/></button>
+               ))}
+               <div className="w-px bg-slate-700 my-1"/>
+               <button title="缩小" onClick={() => zoomBy(1 / 1.2)} className="p-1.5 rounded-full text-slate-400 hover:text-white hover:bg-slate-800"><ZoomOut size={12}/></button>
+               <button title="重置缩放 100%" onClick={() => setViewport(vp => zoomAt(vp, canvasSize.w / 2, canvasSize.h / 2, 1 / vp.zoom))} className="px-1 text-[10px] font-mono text-slate-400 hover:text-white w-10">{Math.round(viewport.zoom * 100)}%</button>
+               <button title="放大" onClick={() => zoomBy(1.2)} className="p-1.5 rounded-full text-slate-400 hover:text-white hover:bg-slate-800"><ZoomIn size={12}/></button>
+               <button title="适应内容" onClick={fitToContent} className="p-1.5 rounded-full text-slate-400 hover:text-white hover:bg-slate-800"><Scan size={12}/></button>
+               <button title={`网格吸附 ${snap ? '开' : '关'}`} onClick={() => setSnap(v => !v)} className={`p-1.5 rounded-full hover:bg-slate-800 ${snap ? 'text-cyan-400' : 'text-slate-500 hover:text-white'}`}><Magnet size={12}/></button>
             </div>
+
+            <div onMouseDown={e => e.stopPropagation()} className="absolute bottom-4 right-4 bg-slate-900/80 border border-slate-800 rounded backdrop-blur z-30 overflow-hidden" title="小地图：点击跳转">
+               <Minimap nodes={nodes} edges={edges} viewport={viewport} size={canvasSize} onNavigate={centerOn}/>
+            </div>
+
+            {canvasNotice && (
+               <div onMouseDown={e => e.stopPropagation()} className="absolute top-14 left-1/2 -translate-x-1/2 text-[10px] bg-red-950/90 border border-red-800 text-red-300 rounded px-3 py-1.5 flex items-center gap-2 z-30">
+                  <AlertOctagon size={12}/> {canvasNotice}
+                  <X size={10} className="cursor-pointer" onClick={() => setCanvasNotice(null)}/>
+               </div>
+            )}
+
+            {issues.length > 0 && (
+               <div onMouseDown={e => e.stopPropagation()} className={`absolute bottom-4 left-4 max-w-[320px] max-h-[40%] overflow-y-auto text-[10px] bg-slate-900/90 border rounded p-2 space-y-1 backdrop-blur z-30 custom-scrollbar ${blockingIssues.length ? 'border-red-900/60' : 'border-amber-900/50'}`}>
+                  <div className={`font-bold flex items-center gap-1.5 ${blockingIssues.length ? 'text-red-400' : 'text-amber-400'}`}>
+                     <AlertTriangle size={10}/> 拓扑检查 Validation ({blockingIssues.length} 错误 / {issues.length - blockingIssues.length} 警告)
+                  </div>
+                  {blockingIssues.length > 0 && <div className="text-red-300/80">修复全部错误后才能启动仿真</div>}
+                  {[...blockingIssues, ...issues.filter(i => i.severity !== 'error')].map((i, idx) => (
+                     <div key={idx} onClick={() => i.nodeId && setSelectedNodeId(i.nodeId)} className={`${i.severity === 'error' ? 'text-red-300' : 'text-slate-400'} ${i.nodeId ? 'cursor-pointer hover:text-slate-200' : ''}`}>• {i.message}</div>
+                  ))}
+               </div>
+            )}
          </div>
 
          {/* BOTTOM: CHART */}
          <div className="h-[350px] bg-slate-950 p-0 relative z-10 shadow-[0_-20px_40px_rgba(0,0,0,0.5)]">
              <div className="h-9 flex items-center justify-between px-4 bg-slate-900/50 border-b border-slate-800 backdrop-blur-sm">
-                <span className="text-[10px] font-bold text-slate-400 uppercase flex items-center gap-2"><Activity size={12} className="text-cyan-500"/> 实时遥测 Real-time Telemetry</span>
+                <span className="text-[10px] font-bold text-slate-400 uppercase flex items-center gap-2"><Activity size={12} className="text-cyan-500"/> {bottomView === 'COMPARE' ? '方案对比 Comparison' : bottomView === 'TIMELINE' ? '场景时间线 Timeline' : '实时遥测 Real-time Telemetry'}</span>
                 <div className="flex gap-4 text-[10px] font-mono text-slate-500">
                    <span className="flex items-center gap-1"><Timer size={10}/> {time.toFixed(1)}s</span>
-                   <span className={Math.abs(tankLevelRef.current-295)>5?'text-red-500 font-bold':'text-green-500 font-bold'}>ERR: {Math.abs(tankLevelRef.current-295).toFixed(2)}</span>
+                   <span title="水位与设定值的偏差；有未解除的水位报警时标红" className={controlledAlarm ? 'text-red-500 font-bold' : 'text-green-500 font-bold'}>ERR: {Math.abs(level - target).toFixed(2)}</span>
+                   <button onClick={() => setShowAlarms(v => !v)} title="报警面板" className={`flex items-center gap-1 ${unackedAlarms.length ? 'text-red-400 animate-pulse' : activeAlarms.length ? 'text-amber-400' : 'hover:text-white'}`}>
+                      <Bell size={10}/> ALM: {activeAlarms.length}{unackedAlarms.length > 0 && `/${unackedAlarms.length}`}
+                   </button>
+                   <button onClick={() => setBottomView(v => v === 'TIMELINE' ? 'TREND' : 'TIMELINE')} title="场景时间线" className={`flex items-center gap-1 ${bottomView === 'TIMELINE' ? 'text-cyan-400' : 'hover:text-white'}`}>
+                      <CalendarClock size={10}/> TL
+                   </button>
+                   <button onClick={() => setBottomView(v => v === 'COMPARE' ? 'TREND' : 'COMPARE')} title="方案对比：以相同场景和种子后台运行各方案" className={`flex items-center gap-1 ${bottomView === 'COMPARE' ? 'text-cyan-400' : 'hover:text-white'}`}>
+                      <GitCompare size={10}/> CMP
+                   </button>
+                   <label className="flex items-center gap-1" title="随机种子：相同种子重放完全一致的运行">
+                      SEED:
+                      <input type="number" value={sim.seed} onChange={e => { const seed = Math.floor(Number(e.target.value)); if (Number.isFinite(seed)) updateSim(s => reseed(s, seed)); }} className="w-20 bg-transparent text-slate-300 outline-none border-b border-transparent focus:border-cyan-500"/>
+                   </label>
                    <div className="flex gap-1 ml-4">
-                      <button onClick={() => setIsRunning(!isRunning)} className="hover:text-white"><Pause size={12}/></button>
-                      <button onClick={() => {setTime(0); setHistory([]);}} className="hover:text-white"><RotateCcw size={12}/></button>
+                      <button onClick={toggleRunning} disabled={computing !== null} title={isRunning ? '暂停' : '运行'} className="hover:text-white disabled:opacity-30">{isRunning ? <Pause size={12}/> : <Play size={12}/>}</button>
+                      <button onClick={stepOnce} disabled={computing !== null} title={`单步 ${DT}s`} className="hover:text-white disabled:opacity-30"><StepForward size={12}/></button>
+                      <button onClick={() => {updateSim(restartRun); resetHistory();}} disabled={computing !== null} title="从 t=0 以相同种子重放" className="hover:text-white disabled:opacity-30"><RotateCcw size={12}/></button>
+                      <select value={speed} onChange={e => setSpeed(Number(e.target.value))} title="仿真速度" className="bg-transparent text-slate-300 outline-none cursor-pointer">
+                         {SPEED_OPTIONS.map(v => <option key={v} value={v} className="bg-slate-900">{v}×</option>)}
+                      </select>
+                   </div>
+                   <div className="flex items-center gap-1">
+                      <input type="number" min={0} value={untilTime} onChange={e => setUntilTime(Math.max(0, Number(e.target.value)))} title="目标时刻 (s)" className="w-14 bg-transparent text-slate-300 outline-none border-b border-slate-700 focus:border-cyan-500 text-right"/>s
+                      {computing !== null ? (
+                         <>
+                            <span className="text-cyan-400 animate-pulse">{Math.min(100, time / computing * 100).toFixed(0)}%</span>
+                            <button onClick={stopComputing} title="停止后台计算" className="hover:text-red-400"><X size={12}/></button>
+                         </>
+                      ) : (
+                         <>
+                            <button onClick={startRunUntil} disabled={untilTime <= time} title="按当前速度运行至目标时刻" className={`hover:text-white disabled:opacity-30 ${runUntil !== null ? 'text-cyan-400' : ''}`}><Flag size={12}/></button>
+                            <button onClick={computeInstantly} disabled={untilTime <= time} title="后台立即计算至目标时刻" className="hover:text-white disabled:opacity-30"><FastForward size={12}/></button>
+                         </>
+                      )}
+                   </div>
+                   <div className="flex items-center gap-1 border-l border-slate-700 pl-3">
+                      <button onClick={() => exportRun('CSV')} disabled={!historyStore.current.length || computing !== null} title="导出运行数据 CSV" className="hover:text-white disabled:opacity-30"><FileSpreadsheet size={12}/></button>
+                      <button onClick={() => exportRun('JSON')} disabled={!historyStore.current.length || computing !== null} title="导出运行数据 JSON" className="hover:text-white disabled:opacity-30"><FileCode size={12}/></button>
                    </div>
                 </div>
              </div>
-             <div className="h-[calc(100%-36px)] p-4">
-                <TrendChart history={history} prediction={[]} faults={faults} />
+             <div className="h-[calc(100%-36px)] p-4 relative">
+                {showAlarms && (
+                   <div className="absolute top-2 right-4 w-[360px] max-h-[70%] overflow-y-auto bg-slate-900/95 border border-slate-700 rounded shadow-2xl z-40 text-[10px] backdrop-blur custom-scrollbar">
+                      <div className="flex items-center justify-between px-3 py-2 border-b border-slate-800 sticky top-0 bg-slate-900">
+                         <span className="font-bold text-slate-300 flex items-center gap-1.5"><Bell size={10}/> 水位报警 Alarms</span>
+                         <div className="flex gap-2">
+                            <button disabled={!unackedAlarms.length} onClick={() => updateSim(s => ({ ...s, alarms: acknowledgeAlarms(s.alarms) }))} className="text-cyan-400 hover:text-cyan-300 disabled:opacity-30">全部确认</button>
+                            <button onClick={() => setShowAlarms(false)} className="text-slate-500 hover:text-white"><X size={10}/></button>
+                         </div>
+                      </div>
+                      {sim.alarms.length === 0 && <div className="px-3 py-2 text-slate-600">无报警</div>}
+                      {[...sim.alarms].reverse().map(a => (
+                         <div key={a.id} className={`flex items-center gap-2 px-3 py-1.5 border-b border-slate-800/60 ${a.clearedAt === null && !a.acknowledged ? 'bg-red-950/30' : ''}`}>
+                            <span className={`font-mono font-bold w-6 ${a.band.length === 2 ? 'text-red-400' : 'text-amber-400'}`}>{a.band}</span>
+                            <span className="flex-1 text-slate-300 truncate">{nodes.find(n => n.id === a.nodeId)?.label ?? a.nodeId} · 限值 {a.limit} m</span>
+                            <span className="font-mono text-slate-500">{a.raisedAt.toFixed(1)}s{a.clearedAt !== null && ` → ${a.clearedAt.toFixed(1)}s`}</span>
+                            {a.acknowledged
+                               ? <span className="text-slate-600 w-8 text-right">已确认</span>
+                               : <button onClick={() => updateSim(s => ({ ...s, alarms: acknowledgeAlarms(s.alarms, a.id) }))} className="text-cyan-400 hover:text-cyan-300 w-8 text-right">确认</button>}
+                         </div>
+                      ))}
+                   </div>
+                )}
+                {bottomView === 'TIMELINE' ? (
+                   <TimelineEditor
+                      timeline={timeline} runtime={sim.timelineRuntime} time={time} nodes={nodes} paradigms={PARADIGMS}
+                      disturbanceOptions={DISTURBANCE_OPTIONS} onChange={setTimeline}
+                      onExport={exportScenario} onImport={importScenario} error={scenarioError}
+                   />
+                ) : bottomView === 'COMPARE' ? (
+                   <div className="w-full h-full flex gap-3">
+                      <div className="w-[45%] h-full"><ComparisonChart results={comparisonResults}/></div>
+                      <div className="flex-1 h-full overflow-auto custom-scrollbar text-[10px]">
+                         <div className="flex items-center gap-2 mb-2">
+                            <span className="text-slate-500">时长</span>
+                            <input type="number" min={10} step={10} value={comparisonDuration} onChange={e => setComparisonDuration(Math.max(10, Number(e.target.value) || 0))} className="w-16 bg-slate-950 border border-slate-700 rounded px-1.5 py-0.5 text-right font-mono text-slate-300 outline-none focus:border-cyan-500"/>
+                            <span className="text-slate-500">s · 种子 {sim.seed}</span>
+                            {comparisonProgress === null ? (
+                               <button disabled={blockingIssues.length > 0 || !comparisonVariants.length} onClick={startComparison} className="ml-auto px-2 py-1 bg-cyan-600 hover:bg-cyan-500 text-white font-bold rounded disabled:opacity-30 flex items-center gap-1"><Play size={10}/> 运行对比</button>
+                            ) : (
+                               <div className="ml-auto flex items-center gap-2">
+                                  <div className="w-24 h-1.5 bg-slate-800 rounded overflow-hidden"><div className="h-full bg-cyan-500" style={{ width: `${comparisonProgress * 100}%` }}/></div>
+                                  <button onClick={cancelComparison} className="text-slate-400 hover:text-red-400">取消</button>
+                               </div>
+                            )}
+                            <button onClick={addVariant} title="以当前部署的范式新增方案" className="text-slate-400 hover:text-cyan-400 flex items-center gap-0.5"><Plus size={10}/> 方案</button>
+                         </div>
+                         <table className="w-full">
+                            <thead>
+                               <tr className="text-slate-500 text-left">
+                                  <th className="font-normal pb-1">方案</th>
+                                  <th className="font-normal pb-1">面积 m²</th>
+                                  <th className="font-normal pb-1">算法</th>
+                                  {KPI_COLUMNS.map(c => <th key={c.key} title={c.key === 'settlingTime' ? `回到 ±${SETTLING_BAND} m 内所需的最长时间` : undefined} className="font-normal pb-1 text-right">{c.label} <span className="text-slate-600">{c.unit}</span></th>)}
+                                  <th/>
+                               </tr>
+                            </thead>
+                            <tbody>
+                               {comparisonVariants.map((v, i) => {
+                                  const kpis = comparisonResults.find(r => r.variant.id === v.id)?.kpis;
+                                  return (
+                                     <tr key={v.id} className="border-t border-slate-800/60">
+                                        <td className="py-1 pr-2 whitespace-nowrap"><span className="inline-block w-2 h-2 rounded-sm mr-1.5" style={{ background: VARIANT_COLORS[i % VARIANT_COLORS.length] }}/><span className="text-slate-300">{v.name}</span></td>
+                                        <td className="pr-2"><input type="number" min={1} value={v.paradigm.tankArea} onChange={e => updateVariant(v.id, { tankArea: Math.max(1, Number(e.target.value) || 1) })} className="w-14 bg-slate-950 border border-slate-700 rounded px-1 py-0.5 text-right font-mono text-slate-300 outline-none focus:border-cyan-500"/></td>
+                                        <td className="pr-2">
+                                           <select value={v.paradigm.algorithm} onChange={e => updateVariant(v.id, { algorithm: e.target.value as ControlAlgorithm })} className="bg-slate-950 border border-slate-700 rounded px-1 py-0.5 text-slate-300 outline-none focus:border-cyan-500">
+                                              {(['PID', 'SMITH', 'MPC'] as ControlAlgorithm[]).map(a => <option key={a} value={a}>{a}</option>)}
+                                           </select>
+                                        </td>
+                                        {KPI_COLUMNS.map(c => {
+                                           const value = kpis?.[c.key];
+                                           const values = comparisonResults.map(r => r.kpis[c.key]).filter((x): x is number => x !== null);
+                                           const best = typeof value === 'number' && values.length > 1 && value === Math.min(...values);
+                                           return <td key={c.key} className={`text-right font-mono ${best ? 'text-green-400' : 'text-slate-300'}`}>{!kpis ? '—' : value === null ? '未稳定' : value!.toFixed(c.digits)}</td>;
+                                        })}
+                                        <td className="text-right pl-2"><Trash2 size={10} className="inline text-slate-600 cursor-pointer hover:text-red-400" onClick={() => setComparisonVariants(prev => prev.filter(x => x.id !== v.id))}/></td>
+                                     </tr>
+                                  );
+                               })}
+                            </tbody>
+                         </table>
+                      </div>
+                   </div>
+                ) : <TrendChart store={historyStore.current} version={historyVersion} panels={chartPanels} signals={trendSignals} onPanelsChange={setChartPanels} fileName={`${projectName || 'project'}-trend`} prediction={deployedParadigm.algorithm === 'MPC' ? sim.mpc.prediction : []} faults={faults} alarmLimits={controlledReservoir ? getAlarmLimits(controlledReservoir) : undefined} />}
              </div>
          </div>
       </div>
@@ -748,7 +1659,18 @@ export default function App() {
              <div className="flex items-center gap-2 mb-4 text-xs font-bold text-slate-300 uppercase tracking-wider">
                 <Settings2 size={14} className="text-purple-500"/> 属性检查器 Inspector
              </div>
-             {selectedNodeId ? (() => {
+             {selection.length > 1 ? (
+                <div className="space-y-3 animate-in fade-in">
+                   <div className="bg-slate-950 p-3 rounded border border-slate-800 text-[10px] space-y-1">
+                      <div className="text-slate-300 font-bold">已选中 {selection.length} 个组件</div>
+                      <div className="text-slate-500">{nodes.filter(n => selection.includes(n.id)).map(n => n.label).join('、')}</div>
+                   </div>
+                   <div className="grid grid-cols-2 gap-2">
+                      <button onClick={copySelection} className="py-2 bg-slate-800 text-slate-300 text-[10px] rounded border border-slate-700 hover:bg-slate-700 flex items-center justify-center gap-2"><Copy size={12}/> 复制</button>
+                      <button onClick={() => deleteNodes(selection)} className="py-2 bg-red-900/10 text-red-400 text-[10px] rounded border border-red-900/30 hover:bg-red-900/20 flex items-center justify-center gap-2"><Trash2 size={12}/> 删除</button>
+                   </div>
+                </div>
+             ) : selectedNodeId ? (() => {
                 const node = nodes.find(n => n.id === selectedNodeId);
                 if (!node) return null;
                 return (
@@ -762,38 +1684,126 @@ export default function App() {
                           </div>
                       </div>
 
-                      {node.type === 'RESERVOIR' && (
-                         <div>
-                            <div className="flex justify-between text-[10px] mb-1"><span className="text-slate-500">底面积 Area</span><span className="text-cyan-400 font-mono">{node.data.area} m²</span></div>
-                            <input type="range" min="10" max="300" value={node.data.area} onChange={(e) => setNodes(prev => prev.map(n => n.id === node.id ? {...n, data: {...n.data, area: Number(e.target.value)}} : n))} className="w-full h-1.5 bg-slate-800 rounded appearance-none cursor-pointer accent-cyan-500"/>
-                         </div>
+                      {node.type === 'SOURCE' && (
+                         <InspectorSlider label="水头 Head" unit="m" value={node.data.head ?? 300} min={0} max={400} valueClass="text-blue-400" accentClass="accent-blue-500" onChange={v => updateNodeData(node.id, { head: v })}/>
                       )}
-                      {node.type === 'PUMP' && (
-                         <div>
-                            <div className="flex justify-between text-[10px] mb-1"><span className="text-slate-500">运行效率 Efficiency</span><span className="text-orange-400 font-mono">{node.data.efficiency}%</span></div>
-                            <input type="range" min="0" max="100" value={node.data.efficiency} onChange={(e) => setNodes(prev => prev.map(n => n.id === node.id ? {...n, data: {...n.data, efficiency: Number(e.target.value)}} : n))} className="w-full h-1.5 bg-slate-800 rounded appearance-none cursor-pointer accent-orange-500"/>
-                         </div>
+                      {node.type === 'RESERVOIR' && (
+                         <>
+                            <InspectorSlider label="底面积 Area" unit="m²" value={node.data.area} min={10} max={300} valueClass="text-cyan-400" accentClass="accent-cyan-500" onChange={v => updateNodeData(node.id, { area: v })}/>
+                            <InspectorSlider label="最低水位 Min Level" unit="m" value={node.data.minLevel ?? 0} min={0} max={300} step={1} valueClass="text-cyan-400" accentClass="accent-cyan-500" onChange={v => updateNodeData(node.id, { minLevel: v })}/>
+                            <InspectorSlider label="溢流堰顶 Spillway Crest" unit="m" value={node.data.overflowLevel ?? OVERFLOW_LEVEL} min={280} max={330} step={0.5} valueClass="text-sky-400" accentClass="accent-sky-500" onChange={v => updateNodeData(node.id, { overflowLevel: v })}/>
+                            <InspectorSlider label="溢洪道泄量 Spillway Capacity" unit="m³/s" value={node.data.spillwayCapacity ?? SPILLWAY_CAPACITY} min={0} max={1000} step={10} valueClass="text-sky-400" accentClass="accent-sky-500" onChange={v => updateNodeData(node.id, { spillwayCapacity: v })}/>
+                            <InspectorSlider label="最高水位 Max Level" unit="m" value={node.data.maxLevel ?? MAX_LEVEL} min={280} max={350} step={0.5} valueClass="text-cyan-400" accentClass="accent-cyan-500" onChange={v => updateNodeData(node.id, { maxLevel: v })}/>
+                            <div>
+                               <div className="text-[10px] text-slate-500 mb-1">报警限值 Alarm Limits (m)</div>
+                               <div className="grid grid-cols-4 gap-1">
+                                  {ALARM_BANDS.map(band => (
+                                     <label key={band} className="text-[9px] text-slate-500 flex flex-col gap-0.5">
+                                        <span className={band.length === 2 ? 'text-red-400' : 'text-amber-400'}>{band}</span>
+                                        <input type="number" step={0.5} value={getAlarmLimits(node)[band]} onChange={e => updateNodeData(node.id, { alarms: { ...getAlarmLimits(node), [band]: Number(e.target.value) } })} className="w-full bg-slate-950 border border-slate-700 px-1 py-0.5 rounded outline-none text-slate-300 font-mono text-[10px] focus:border-cyan-500"/>
+                                     </label>
+                                  ))}
+                               </div>
+                            </div>
+                         </>
                       )}
+                      {node.type === 'PUMP' && (() => {
+                         const spec = getPumpSpec(node);
+                         const station = sim.pumps[node.id];
+                         return (
+                            <>
+                               <InspectorSlider label="运行效率 Efficiency" unit="%" value={node.data.efficiency} min={0} max={100} valueClass="text-orange-400" accentClass="accent-orange-500" onChange={v => updateNodeData(node.id, { efficiency: v })}/>
+                               <InspectorSlider label="机组台数 Units" unit="台" value={spec.units} min={1} max={8} valueClass="text-orange-400" accentClass="accent-orange-500" onChange={v => updateNodeData(node.id, { units: v })}/>
+                               <div className="flex gap-1">
+                                  {Array.from({ length: spec.units }, (_, i) => (
+                                     <div key={i} title={station?.lead === i ? '主泵 Lead' : undefined} className={`flex-1 text-center text-[9px] font-mono py-0.5 rounded border ${station?.running[i] ? 'bg-orange-500/20 border-orange-500/60 text-orange-300' : 'bg-slate-950 border-slate-800 text-slate-600'}`}>
+                                        #{i + 1}{station?.lead === i && '*'}
+                                     </div>
+                                  ))}
+                               </div>
+                               <PumpCurveChart node={node} flow={sim.sample?.nodes[node.id]}/>
+                               <InspectorSlider label="单机额定流量 Rated Flow" unit="m³/s" value={spec.ratedFlow} min={10} max={500} step={5} valueClass="text-orange-400" accentClass="accent-orange-500" onChange={v => updateNodeData(node.id, { ratedFlow: v })}/>
+                               <InspectorSlider label="额定扬程 Rated Head" unit="m" value={spec.ratedHead} min={1} max={200} valueClass="text-orange-400" accentClass="accent-orange-500" onChange={v => updateNodeData(node.id, { head: v })}/>
+                               <InspectorSlider label="关死扬程 Shut-off Head" unit="m" value={spec.shutoffHead} min={1} max={300} valueClass="text-orange-400" accentClass="accent-orange-500" onChange={v => updateNodeData(node.id, { shutoffHead: v })}/>
+                               <InspectorSlider label="高效点流量 BEP Flow" unit="m³/s" value={spec.bepFlow} min={10} max={500} step={5} valueClass="text-green-400" accentClass="accent-green-500" onChange={v => updateNodeData(node.id, { bepFlow: v })}/>
+                               <InspectorSlider label="最高效率 BEP Efficiency" unit="%" value={Math.round(spec.bepEfficiency * 100)} min={40} max={95} valueClass="text-green-400" accentClass="accent-green-500" onChange={v => updateNodeData(node.id, { bepEfficiency: v })}/>
+                               <InspectorSlider label="最短运行 Min Run Time" unit="s" value={spec.minRunTime} min={0} max={600} step={5} valueClass="text-slate-300" accentClass="accent-slate-500" onChange={v => updateNodeData(node.id, { minRunTime: v })}/>
+                               <InspectorSlider label="启动限制 Max Starts" unit="次/h" value={spec.maxStarts} min={1} max={30} valueClass="text-slate-300" accentClass="accent-slate-500" onChange={v => updateNodeData(node.id, { maxStarts: v })}/>
+                            </>
+                         );
+                      })()}
                       {node.type === 'TURBINE' && (
-                         <div>
-                            <div className="flex justify-between text-[10px] mb-1"><span className="text-slate-500">装机容量 Capacity</span><span className="text-purple-400 font-mono">{node.data.capacity || 100} MW</span></div>
-                            <input type="range" min="0" max="500" value={node.data.capacity || 100} onChange={(e) => setNodes(prev => prev.map(n => n.id === node.id ? {...n, data: {...n.data, capacity: Number(e.target.value)}} : n))} className="w-full h-1.5 bg-slate-800 rounded appearance-none cursor-pointer accent-purple-500"/>
-                         </div>
+                         <>
+                            <InspectorSlider label="装机容量 Capacity" unit="MW" value={node.data.capacity ?? 100} min={0} max={500} valueClass="text-purple-400" accentClass="accent-purple-500" onChange={v => updateNodeData(node.id, { capacity: v })}/>
+                            <InspectorSlider label="导叶开度 Guide Vane" unit="%" value={node.data.open ?? 100} min={0} max={100} valueClass="text-purple-400" accentClass="accent-purple-500" onChange={v => updateNodeData(node.id, { open: v })}/>
+                            <InspectorSlider label="额定流量 Rated Flow" unit="m³/s" value={node.data.ratedFlow ?? 100} min={0} max={300} valueClass="text-purple-400" accentClass="accent-purple-500" onChange={v => updateNodeData(node.id, { ratedFlow: v })}/>
+                         </>
                       )}
                       {node.type === 'PIPE' && (
-                         <div>
-                            <div className="flex justify-between text-[10px] mb-1"><span className="text-slate-500">输水滞后 Delay</span><span className="text-slate-300 font-mono">{node.data.delay}s</span></div>
-                            <input type="range" min="1" max="20" step="0.5" value={node.data.delay} onChange={(e) => setNodes(prev => prev.map(n => n.id === node.id ? {...n, data: {...n.data, delay: Number(e.target.value)}} : n))} className="w-full h-1.5 bg-slate-800 rounded appearance-none cursor-pointer accent-slate-500"/>
-                         </div>
+                         <>
+                            <select value={getPipeRouting(node)} onChange={e => updateNodeData(node.id, { routing: e.target.value as PipeRouting })} className="w-full bg-slate-950 border border-slate-700 text-xs p-2 rounded outline-none text-slate-300 focus:border-cyan-500">
+                               {PIPE_ROUTINGS.map(r => <option key={r.value} value={r.value}>{r.label}</option>)}
+                            </select>
+                            {getPipeRouting(node) === 'DELAY' ? (
+                               <InspectorSlider label="输水滞后 Delay" unit="s" value={node.data.delay ?? DEFAULT_PIPE_DELAY} min={1} max={300} step={0.5} valueClass="text-slate-300" accentClass="accent-slate-500" onChange={v => updateNodeData(node.id, { delay: v })}/>
+                            ) : (() => {
+                               const g = getPipeGeometry(node);
+                               return (
+                                  <>
+                                     <InspectorSlider label="长度 Length" unit="m" value={g.length} min={10} max={50000} step={10} valueClass="text-slate-300" accentClass="accent-slate-500" onChange={v => updateNodeData(node.id, { length: v })}/>
+                                     <InspectorSlider label={getPipeRouting(node) === 'KINEMATIC' ? '渠宽 Width' : '管径 Diameter'} unit="m" value={g.diameter} min={0.2} max={10} step={0.1} valueClass="text-slate-300" accentClass="accent-slate-500" onChange={v => updateNodeData(node.id, { diameter: v })}/>
+                                     <InspectorSlider label="糙率 Manning n" unit="" value={g.roughness} min={0.01} max={0.04} step={0.001} valueClass="text-slate-300" accentClass="accent-slate-500" onChange={v => updateNodeData(node.id, { roughness: v })}/>
+                                     <InspectorSlider label="坡度 Slope" unit="‰" value={+(g.slope * 1000).toFixed(2)} min={0.01} max={10} step={0.01} valueClass="text-slate-300" accentClass="accent-slate-500" onChange={v => updateNodeData(node.id, { slope: v / 1000 })}/>
+                                     {getPipeRouting(node) === 'MUSKINGUM' && (
+                                        <InspectorSlider label="衰减系数 Muskingum X" unit="" value={node.data.muskingumX ?? PIPE_DEFAULTS.muskingumX} min={0} max={0.45} step={0.05} valueClass="text-slate-300" accentClass="accent-slate-500" onChange={v => updateNodeData(node.id, { muskingumX: v })}/>
+                                     )}
+                                     <div className="flex justify-between text-[10px] font-mono text-slate-500"><span>传输滞后 (由几何计算)</span><span className="text-slate-300">{getPipeDelay(node).toFixed(1)} s</span></div>
+                                  </>
+                               );
+                            })()}
+                         </>
                       )}
                       {(node.type === 'VALVE' || node.type === 'GATE') && (
-                         <div>
-                            <div className="flex justify-between text-[10px] mb-1"><span className="text-slate-500">开度 Open</span><span className="text-yellow-400 font-mono">{node.data.open || 100}%</span></div>
-                            <input type="range" min="0" max="100" value={node.data.open || 100} onChange={(e) => setNodes(prev => prev.map(n => n.id === node.id ? {...n, data: {...n.data, open: Number(e.target.value)}} : n))} className="w-full h-1.5 bg-slate-800 rounded appearance-none cursor-pointer accent-yellow-500"/>
+                         <>
+                            <InspectorSlider label="开度 Open" unit="%" value={node.data.open ?? 100} min={0} max={100} valueClass="text-yellow-400" accentClass="accent-yellow-500" onChange={v => updateNodeData(node.id, { open: v })}/>
+                            {node.type === 'VALVE'
+                               ? <InspectorSlider label="过流面积 Orifice Area" unit="m²" value={node.data.area ?? 10} min={0.5} max={50} step={0.5} valueClass="text-yellow-400" accentClass="accent-yellow-500" onChange={v => updateNodeData(node.id, { area: v })}/>
+                               : <InspectorSlider label="堰宽 Weir Width" unit="m" value={node.data.width ?? 8} min={1} max={30} step={0.5} valueClass="text-yellow-400" accentClass="accent-yellow-500" onChange={v => updateNodeData(node.id, { width: v })}/>}
+                         </>
+                      )}
+                      {sim.sample?.nodes[node.id] && (() => {
+                         const f = sim.sample.nodes[node.id];
+                         return (
+                            <div className="bg-slate-950 p-3 rounded border border-slate-800 grid grid-cols-2 gap-1 text-[10px] font-mono">
+                               <span className="text-slate-500">Q in</span><span className="text-right text-slate-300">{f.inflow.toFixed(2)} m³/s</span>
+                               <span className="text-slate-500">Q out</span><span className="text-right text-slate-300">{f.outflow.toFixed(2)} m³/s</span>
+                               {f.level !== undefined && <><span className="text-slate-500">Level</span><span className="text-right text-cyan-400">{f.level.toFixed(2)} m</span></>}
+                               {f.head !== undefined && <><span className="text-slate-500">ΔH</span><span className="text-right text-yellow-400">{f.head.toFixed(2)} m</span></>}
+                               {f.power !== undefined && <><span className="text-slate-500">Power</span><span className="text-right text-purple-400">{f.power.toFixed(2)} MW</span></>}
+                               {f.unmet !== undefined && <><span className="text-slate-500">Unmet</span><span className="text-right text-red-400">{f.unmet.toFixed(2)} m³/s</span></>}
+                               {f.leak !== undefined && <><span className="text-slate-500">Leak</span><span className="text-right text-red-400">{f.leak.toFixed(2)} m³/s</span></>}
+                               {f.powerUse !== undefined && <><span className="text-slate-500">P elec</span><span className="text-right text-orange-400">{f.powerUse.toFixed(2)} MW</span></>}
+                               {f.headLoss !== undefined && <><span className="text-slate-500">h_f</span><span className="text-right text-slate-300">{f.headLoss.toFixed(2)} m</span></>}
+                               {f.overtop !== undefined && <><span className="text-slate-500">Overtop</span><span className="text-right text-red-400">{f.overtop.toFixed(2)} m³/s</span></>}
+                               {f.spill !== undefined && <><span className="text-slate-500">Spill</span><span className="text-right text-sky-400">{f.spill.toFixed(2)} m³/s</span></>}
+                               {f.bypass !== undefined && <><span className="text-slate-500">Bypass</span><span className="text-right text-amber-400">{f.bypass.toFixed(2)} m³/s</span></>}
+                            </div>
+                         );
+                      })()}
+
+                      {Object.values(NODE_FAULT_INFO).some(i => i.targets.includes(node.type)) && (
+                         <div className="space-y-2">
+                            <div className="flex justify-between items-center text-[10px] font-bold text-slate-500">
+                               <span>故障计划 Faults</span>
+                               <button onClick={() => addNodeFault(node)} className="text-red-400 hover:text-red-300">+ 添加</button>
+                            </div>
+                            {nodeFaults.filter(f => f.nodeId === node.id).map(f => (
+                               <NodeFaultRow key={f.id} fault={f} onChange={patch => updateNodeFault(f.id, patch)} onRemove={() => { checkpoint(); setNodeFaults(prev => prev.filter(x => x.id !== f.id)); }}/>
+                            ))}
                          </div>
                       )}
 
-                      <button onClick={() => { setNodes(prev => prev.filter(n => n.id !== node.id)); setEdges(curr => curr.filter(e => e.source !== node.id && e.target !== node.id)); setSelectedNodeId(null); }} className="w-full py-2 bg-red-900/10 text-red-400 text-[10px] rounded border border-red-900/30 hover:bg-red-900/20 transition-colors flex items-center justify-center gap-2">
+                      <button onClick={() => deleteNodes([node.id])} className="w-full py-2 bg-red-900/10 text-red-400 text-[10px] rounded border border-red-900/30 hover:bg-red-900/20 transition-colors flex items-center justify-center gap-2">
                          <Trash2 size={12}/> 删除组件
                       </button>
                    </div>
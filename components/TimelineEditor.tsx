@@ -0,0 +1,251 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { Trash2, Download, Upload, Repeat, Zap } from 'lucide-react';
+import {
+  CanvasNode, ConditionSignal, DesignParadigm, DisturbanceConfig, DisturbanceType, FaultState,
+  TimelineAction, TimelineActionType, TimelineEvent, TimelineRuntime
+} from '../types';
+import {
+  CONDITION_SIGNALS, FAULT_LABELS, TIMELINE_ACTIONS, describeAction, describeCondition,
+  getEventLabel, getOpeningNodes, getOrphanedEvents, getScheduledTimes, isEventDone
+} from '../services/timeline';
+import { DEFAULT_DEMAND_PATTERN, DEFAULT_SETPOINT_PATTERN } from '../services/simulationEngine';
+
+interface TimelineEditorProps {
+  timeline: TimelineEvent[];
+  runtime: Record<string, TimelineRuntime>;
+  time: number; // Current simulation time (s)
+  nodes: CanvasNode[];
+  paradigms: DesignParadigm[];
+  disturbanceOptions: { type: DisturbanceType; label: string }[];
+  onChange: (timeline: TimelineEvent[]) => void;
+  onExport: () => void;
+  onImport: (file: File) => void;
+  error: string | null;
+}
+
+const ACTION_TYPES = Object.keys(TIMELINE_ACTIONS) as TimelineActionType[];
+const LANE_H = 14;
+const ORPHAN_TITLE = '引用的节点已不在画布上，运行时跳过';
+const inputClass = 'bg-slate-950 border border-slate-700 rounded px-1.5 py-0.5 text-slate-300 outline-none focus:border-cyan-500';
+
+const createAction = (type: TimelineActionType, nodes: CanvasNode[], paradigms: DesignParadigm[]): TimelineAction => {
+  switch (type) {
+    case 'SETPOINT': return { type, pattern: { ...DEFAULT_SETPOINT_PATTERN } };
+    case 'DEMAND': return { type, pattern: { ...DEFAULT_DEMAND_PATTERN } };
+    case 'FAULT': return { type, fault: 'leakage', active: true, value: 20 };
+    case 'OPENING': return { type, nodeId: getOpeningNodes(nodes)[0].id, open: 50 };
+    case 'PARADIGM': return { type, paradigm: paradigms[0] };
+    case 'PAUSE': return { type };
+  }
+};
+
+const NumberInput: React.FC<{ value: number; onChange: (v: number) => void; step?: number; min?: number; width?: string }> = ({ value, onChange, step = 1, min, width = 'w-16' }) => (
+  <input type="number" value={value} step={step} min={min} onChange={e => { if (e.target.value !== '') onChange(Number(e.target.value)); }} className={`${width} ${inputClass} text-right font-mono`}/>
+);
+
+const PatternFields: React.FC<{ pattern: DisturbanceConfig; options: TimelineEditorProps['disturbanceOptions']; onChange: (p: DisturbanceConfig) => void }> = ({ pattern, options, onChange }) => (
+  <>
+    <select value={pattern.type} onChange={e => onChange({ ...pattern, type: e.target.value as DisturbanceType })} className={inputClass}>
+      {options.filter(o => o.type !== 'CSV_PROFILE' || pattern.type === 'CSV_PROFILE').map(o => <option key={o.type} value={o.type}>{o.label}</option>)}
+    </select>
+    {(['base', 'amplitude', 'frequency'] as const).map(k => (
+      <label key={k} className="flex items-center gap-1 text-slate-500">{k}<NumberInput value={pattern[k]} step={k === 'frequency' ? 0.01 : 1} onChange={v => onChange({ ...pattern, [k]: v })}/></label>
+    ))}
+  </>
+);
+
+/**
+ * Scenario timeline: one lane per action type on a shared time axis. Markers are dragged to
+ * reschedule; conditional events are drawn as diamonds at the time they are armed, and timed
+ * repetitions as ticks.
+ */
+const TimelineEditor: React.FC<TimelineEditorProps> = ({ timeline, runtime, time, nodes, paradigms, disturbanceOptions, onChange, onExport, onImport, error }) => {
+  const trackRef = useRef<HTMLDivElement>(null);
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [dragging, setDragging] = useState<string | null>(null);
+  const [span, setSpan] = useState(300);
+  const horizon = Math.max(span, ...timeline.map(e => e.time + 30), time + 30);
+  const selected = timeline.find(e => e.id === selectedId) ?? null;
+  const reservoirs = nodes.filter(n => n.type === 'RESERVOIR');
+  const orphaned = new Set(getOrphanedEvents(timeline, nodes).map(e => e.id));
+
+  const update = (id: string, patch: Partial<TimelineEvent>) => onChange(timeline.map(e => e.id === id ? { ...e, ...patch } : e));
+
+  // An opening change needs a valve, gate or turbine to act on
+  const canAdd = (type: TimelineActionType) => type !== 'OPENING' || getOpeningNodes(nodes).length > 0;
+
+  const addEvent = (type: TimelineActionType) => {
+    if (!canAdd(type)) return;
+    const event: TimelineEvent = { id: `t${Date.now()}`, time: Math.ceil(time) + 10, label: '', action: createAction(type, nodes, paradigms) };
+    onChange([...timeline, event]);
+    setSelectedId(event.id);
+  };
+
+  // Drag a marker along the track, snapping to whole seconds
+  useEffect(() => {
+    if (!dragging) return;
+    const move = (e: MouseEvent) => {
+      const rect = trackRef.current?.getBoundingClientRect();
+      if (!rect) return;
+      const t = Math.max(0, Math.round((e.clientX - rect.left) / rect.width * horizon));
+      onChange(timeline.map(ev => ev.id === dragging ? { ...ev, time: t } : ev));
+    };
+    const up = () => setDragging(null);
+    window.addEventListener('mousemove', move);
+    window.addEventListener('mouseup', up);
+    return () => { window.removeEventListener('mousemove', move); window.removeEventListener('mouseup', up); };
+  }, [dragging, timeline, horizon, onChange]);
+
+  const x = (t: number) => `${t / horizon * 100}%`;
+  const ticks = Array.from({ length: 11 }, (_, i) => i * horizon / 10);
+
+  return (
+    <div className="w-full h-full flex flex-col gap-2 text-[10px]">
+      <div className="flex items-center gap-2 flex-wrap">
+        <span className="text-slate-500">添加</span>
+        {ACTION_TYPES.map(type => (
+          <button key={type} onClick={() => addEvent(type)} disabled={!canAdd(type)} title={canAdd(type) ? undefined : '画布上没有可调开度的阀门、闸门或水轮机'} className="px-1.5 py-0.5 rounded border border-slate-700 text-slate-300 hover:border-slate-500 flex items-center gap-1 disabled:opacity-30 disabled:hover:border-slate-700">
+            <span className="w-2 h-2 rounded-full" style={{ background: TIMELINE_ACTIONS[type].color }}/>{TIMELINE_ACTIONS[type].label}
+          </button>
+        ))}
+        <label className="ml-auto flex items-center gap-1 text-slate-500">跨度 <NumberInput value={span} min={10} step={10} onChange={v => setSpan(Math.max(10, v))}/> s</label>
+        <button onClick={onExport} title="导出场景 (模式、时间线与种子)" className="text-slate-400 hover:text-cyan-400 flex items-center gap-1"><Download size={10}/> 场景</button>
+        <label title="导入场景" className="text-slate-400 hover:text-cyan-400 flex items-center gap-1 cursor-pointer">
+          <Upload size={10}/> 场景
+          <input type="file" accept=".json,application/json" className="hidden" onChange={e => { const f = e.target.files?.[0]; if (f) onImport(f); e.target.value = ''; }}/>
+        </label>
+      </div>
+      {error && <div className="text-red-400">{error}</div>}
+
+      <div className="flex">
+        <div className="w-16 shrink-0 pt-3">
+          {ACTION_TYPES.map(type => <div key={type} style={{ height: LANE_H }} className="text-slate-500 leading-[14px] truncate">{TIMELINE_ACTIONS[type].label}</div>)}
+        </div>
+        <div ref={trackRef} className="relative flex-1 border-l border-slate-800 select-none" style={{ height: 12 + LANE_H * ACTION_TYPES.length }}>
+          {ticks.map(t => (
+            <div key={t} className="absolute top-0 bottom-0 border-l border-slate-800/70" style={{ left: x(t) }}>
+              <span className="absolute -top-0.5 left-0.5 text-[9px] font-mono text-slate-600">{t.toFixed(0)}</span>
+            </div>
+          ))}
+          <div className="absolute top-0 bottom-0 border-l border-cyan-400/60" style={{ left: x(time) }}/>
+          {timeline.map(e => {
+            const lane = ACTION_TYPES.indexOf(e.action.type);
+            const top = 12 + lane * LANE_H + LANE_H / 2;
+            const done = isEventDone(e, runtime[e.id]) || orphaned.has(e.id);
+            const color = TIMELINE_ACTIONS[e.action.type].color;
+            return (
+              <React.Fragment key={e.id}>
+                {getScheduledTimes(e, horizon).slice(1).map(t => (
+                  <div key={t} className="absolute w-px h-2 opacity-60" style={{ left: x(t), top: top - 4, background: color }}/>
+                ))}
+                <div
+                  title={`${getEventLabel(e, nodes)} @ ${e.time}s${e.condition ? ` · 当 ${describeCondition(e.condition, nodes)}` : ''}${orphaned.has(e.id) ? ` · ${ORPHAN_TITLE}` : ''}`}
+                  onMouseDown={ev => { ev.preventDefault(); setSelectedId(e.id); setDragging(e.id); }}
+                  className={`absolute w-2.5 h-2.5 -ml-[5px] -mt-[5px] cursor-ew-resize border ${e.condition ? 'rotate-45' : 'rounded-full'} ${selectedId === e.id ? 'border-white' : 'border-slate-950'} ${done ? 'opacity-40' : ''}`}
+                  style={{ left: x(e.time), top, background: color }}
+                />
+              </React.Fragment>
+            );
+          })}
+        </div>
+      </div>
+
+      <div className="flex-1 min-h-0 flex gap-3">
+        <div className="w-[40%] overflow-y-auto custom-scrollbar space-y-0.5">
+          {timeline.length === 0 && <div className="text-slate-600">时间线为空</div>}
+          {[...timeline].sort((a, b) => a.time - b.time).map(e => (
+            <div key={e.id} onClick={() => setSelectedId(e.id)} className={`flex items-center gap-2 px-2 py-1 rounded cursor-pointer ${selectedId === e.id ? 'bg-slate-800' : 'hover:bg-slate-900'} ${isEventDone(e, runtime[e.id]) || orphaned.has(e.id) ? 'opacity-50' : ''}`} title={orphaned.has(e.id) ? ORPHAN_TITLE : undefined}>
+              <span className="font-mono text-slate-500 w-12 text-right shrink-0">{e.time}s</span>
+              <span className="w-2 h-2 rounded-full shrink-0" style={{ background: TIMELINE_ACTIONS[e.action.type].color }}/>
+              <span className={`truncate flex-1 ${orphaned.has(e.id) ? 'text-red-400 line-through' : 'text-slate-300'}`}>{getEventLabel(e, nodes)}</span>
+              {e.repeat && <Repeat size={10} className="text-slate-500 shrink-0"/>}
+              {e.condition && <Zap size={10} className="text-amber-400 shrink-0"/>}
+            </div>
+          ))}
+        </div>
+
+        {selected ? (
+          <div className="flex-1 overflow-y-auto custom-scrollbar space-y-2">
+            <div className="flex items-center gap-2 flex-wrap">
+              <input value={selected.label} placeholder={describeAction(selected.action, nodes)} onChange={e => update(selected.id, { label: e.target.value })} className={`flex-1 min-w-[140px] ${inputClass}`}/>
+              <label className="flex items-center gap-1 text-slate-500">时刻 <NumberInput value={selected.time} min={0} onChange={v => update(selected.id, { time: Math.max(0, v) })}/> s</label>
+              <Trash2 size={12} className="text-slate-600 cursor-pointer hover:text-red-400" onClick={() => { onChange(timeline.filter(e => e.id !== selected.id)); setSelectedId(null); }}/>
+            </div>
+
+            <div className="flex items-center gap-2 flex-wrap">
+              <span className="font-bold" style={{ color: TIMELINE_ACTIONS[selected.action.type].color }}>{TIMELINE_ACTIONS[selected.action.type].label}</span>
+              {(selected.action.type === 'SETPOINT' || selected.action.type === 'DEMAND') && (
+                <PatternFields pattern={selected.action.pattern} options={disturbanceOptions} onChange={pattern => update(selected.id, { action: { ...selected.action, pattern } as TimelineAction })}/>
+              )}
+              {selected.action.type === 'FAULT' && (() => {
+                const action = selected.action;
+                return <>
+                  <select value={action.fault} onChange={e => update(selected.id, { action: { ...action, fault: e.target.value as keyof FaultState } })} className={inputClass}>
+                    {(Object.keys(FAULT_LABELS) as (keyof FaultState)[]).map(k => <option key={k} value={k}>{FAULT_LABELS[k]}</option>)}
+                  </select>
+                  <label className="flex items-center gap-1 text-slate-500"><input type="checkbox" checked={action.active} onChange={e => update(selected.id, { action: { ...action, active: e.target.checked } })}/> 开启</label>
+                  {action.active && <label className="flex items-center gap-1 text-slate-500">强度 <NumberInput value={action.value} min={0} onChange={v => update(selected.id, { action: { ...action, value: v } })}/></label>}
+                </>;
+              })()}
+              {selected.action.type === 'OPENING' && (() => {
+                const action = selected.action;
+                return <>
+                  <select value={action.nodeId} onChange={e => update(selected.id, { action: { ...action, nodeId: e.target.value } })} className={inputClass}>
+                    {!nodes.some(n => n.id === action.nodeId) && <option value={action.nodeId}>{action.nodeId || '无可调节点'}</option>}
+                    {getOpeningNodes(nodes).map(n => <option key={n.id} value={n.id}>{n.label}</option>)}
+                  </select>
+                  <label className="flex items-center gap-1 text-slate-500">开度 <NumberInput value={action.open} min={0} onChange={v => update(selected.id, { action: { ...action, open: Math.max(0, Math.min(100, v)) } })}/> %</label>
+                </>;
+              })()}
+              {selected.action.type === 'PARADIGM' && (() => {
+                const action = selected.action;
+                return (
+                  <select value={action.paradigm.type} onChange={e => update(selected.id, { action: { ...action, paradigm: paradigms.find(p => p.type === e.target.value) ?? action.paradigm } })} className={inputClass}>
+                    {paradigms.map(p => <option key={p.type} value={p.type}>{p.name} · {p.algorithm}</option>)}
+                  </select>
+                );
+              })()}
+            </div>
+
+            <div className="flex items-center gap-2 flex-wrap text-slate-500">
+              <label className="flex items-center gap-1"><input type="checkbox" checked={!!selected.repeat} onChange={e => update(selected.id, { repeat: e.target.checked ? { interval: 60, count: 0 } : undefined })}/> 重复</label>
+              {selected.repeat && <>
+                <label className="flex items-center gap-1">间隔 <NumberInput value={selected.repeat.interval} min={1} onChange={v => update(selected.id, { repeat: { ...selected.repeat!, interval: Math.max(1, v) } })}/> s</label>
+                <label className="flex items-center gap-1">次数 <NumberInput value={selected.repeat.count} min={0} width="w-12" onChange={v => update(selected.id, { repeat: { ...selected.repeat!, count: Math.max(0, Math.round(v)) } })}/> (0 = 不限)</label>
+              </>}
+            </div>
+
+            <div className="flex items-center gap-2 flex-wrap text-slate-500">
+              <label className="flex items-center gap-1"><input type="checkbox" checked={!!selected.condition} onChange={e => update(selected.id, { condition: e.target.checked ? { signal: 'LEVEL', op: '<', value: 280 } : undefined })}/> 条件触发</label>
+              {selected.condition && (() => {
+                const condition = selected.condition;
+                return <>
+                  <select value={condition.signal} onChange={e => update(selected.id, { condition: { ...condition, signal: e.target.value as ConditionSignal, nodeId: undefined } })} className={inputClass}>
+                    {(Object.keys(CONDITION_SIGNALS) as ConditionSignal[]).map(k => <option key={k} value={k}>{CONDITION_SIGNALS[k].label}</option>)}
+                  </select>
+                  {condition.signal === 'LEVEL' && (
+                    <select value={condition.nodeId ?? ''} onChange={e => update(selected.id, { condition: { ...condition, nodeId: e.target.value || undefined } })} className={inputClass}>
+                      <option value="">受控水池</option>
+                      {reservoirs.map(n => <option key={n.id} value={n.id}>{n.label}</option>)}
+                    </select>
+                  )}
+                  <select value={condition.op} onChange={e => update(selected.id, { condition: { ...condition, op: e.target.value as '<' | '>' } })} className={inputClass}>
+                    <option value="<">&lt;</option>
+                    <option value=">">&gt;</option>
+                  </select>
+                  <NumberInput value={condition.value} step={0.1} onChange={v => update(selected.id, { condition: { ...condition, value: v } })}/>
+                  <span>{CONDITION_SIGNALS[condition.signal].unit} · 自 {selected.time}s 起生效</span>
+                </>;
+              })()}
+            </div>
+            {runtime[selected.id] && <div className="text-slate-600">本次运行已触发 {runtime[selected.id].fired} 次</div>}
+          </div>
+        ) : (
+          <div className="flex-1 text-slate-600">选择或添加一个事件进行编辑；拖动时间轴上的标记可调整时刻</div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default TimelineEditor;
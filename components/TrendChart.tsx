@@ -0,0 +1,382 @@
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { Settings2, Plus, Trash2, X, ImageDown, FileCode } from 'lucide-react';
+import { AlarmLimits, ChartAxis, ChartPanel, FaultState, HistoryStore, PredictionPoint, TrendSignal } from '../types';
+import { ALARM_BANDS, ALARM_INFO } from '../services/alarms';
+import { createChartPanel, getAutoRange, getTicks, nextSignalColor } from '../services/trendSignals';
+import { downsample, findNearestRow, getTimeRange, getValue } from '../utils/historyStore';
+import { downloadBlob, svgToPng } from '../utils/fileUtils';
+
+interface TrendChartProps {
+  store: HistoryStore;
+  version: number; // Store version, so the chart redraws when samples arrive
+  panels: ChartPanel[];
+  signals: TrendSignal[]; // Series the picker offers
+  onPanelsChange: (panels: ChartPanel[]) => void;
+  prediction?: PredictionPoint[];
+  faults: FaultState;
+  alarmLimits?: AlarmLimits;
+  fileName?: string; // Base name for exported images
+}
+
+const DEFAULT_SPAN = 45; // s shown when following the live edge
+const MIN_SPAN = 5;
+const LEAD = 0.25;       // Share of the window kept free ahead of the live edge for the MPC forecast
+const HEADER_H = 14;     // Legend row above each panel (px)
+const PANEL_GAP = 6;
+const AXIS_H = 14;       // Shared time labels under the last panel
+const SCRUB_H = 16;      // Height of the overview strip
+const MONO = 'ui-monospace, SFMono-Regular, Menlo, monospace';
+const DASHED = ['target']; // Setpoints are drawn dashed
+
+const formatTime = (t: number) => {
+  if (t < 60) return `${t.toFixed(1)}s`;
+  const s = Math.floor(t % 60).toString().padStart(2, '0');
+  const mins = Math.floor(t / 60);
+  return mins < 60 ? `${mins}:${s}` : `${Math.floor(mins / 60)}:${(mins % 60).toString().padStart(2, '0')}:${s}`;
+};
+
+const formatTick = (v: number) => Math.abs(v) >= 1000 ? v.toFixed(0) : Number(v.toPrecision(3)).toString();
+
+/**
+ * Stacked trend panels over the whole run, sharing one time axis. The window follows the live edge
+ * until the user pans or zooms: the wheel zooms around the cursor, dragging pans, and the strip
+ * underneath shows the full run with the current window, where clicking or dragging jumps back in
+ * time. Hovering shows exact values of every plotted series. Text and colours are set as SVG
+ * attributes so the exported image looks like the screen.
+ */
+const TrendChart: React.FC<TrendChartProps> = ({ store, version, panels, signals, onPanelsChange, prediction, faults, alarmLimits, fileName = 'trend' }) => {
+  const containerRef = useRef<HTMLDivElement>(null);
+  const svgRef = useRef<SVGSVGElement>(null);
+  const [dims, setDims] = useState({ w: 600, h: 200 });
+  const [span, setSpan] = useState(DEFAULT_SPAN);
+  const [end, setEnd] = useState<number | null>(null); // Right edge of the window; null follows the live edge
+  const [hoverX, setHoverX] = useState<number | null>(null);
+  const [configOpen, setConfigOpen] = useState(false);
+  const [exportError, setExportError] = useState<string | null>(null);
+  const drag = useRef<{ mode: 'PAN' | 'SCRUB'; x: number; end: number } | null>(null);
+  const hasData = store.length > 0;
+
+  useEffect(() => {
+    if (!containerRef.current) return;
+    const ro = new ResizeObserver(e => setDims({ w: e[0].contentRect.width, h: e[0].contentRect.height }));
+    ro.observe(containerRef.current);
+    return () => ro.disconnect();
+  }, [hasData]);
+
+  // A cleared history starts following the live edge again
+  useEffect(() => { if (!hasData) setEnd(null); }, [hasData]);
+
+  const { w, h } = dims;
+  const m = { t: 18, b: AXIS_H + SCRUB_H + 8, l: 44, r: 12 }; // Margins
+  const chartW = Math.max(1, w - m.l - m.r);
+  const panelH = Math.max(HEADER_H + 10, (h - m.t - m.b - PANEL_GAP * (panels.length - 1)) / Math.max(1, panels.length));
+  const [tFirst, tLast] = getTimeRange(store);
+  const liveEnd = tLast + span * LEAD;
+  const tEnd = end ?? liveEnd;
+  const tStart = tEnd - span;
+
+  const getX = (t: number) => m.l + ((t - tStart) / span) * chartW;
+  const getT = (x: number) => tStart + ((x - m.l) / chartW) * span;
+  const signalInfo = (key: string) => signals.find(s => s.key === key) ?? { key, label: key, unit: '', group: '' };
+
+  // One min/max pair per two pixels keeps long windows cheap without losing peaks
+  const traces = useMemo(() => panels.map(p => p.signals.map(s => downsample(store, s.key, tStart, tEnd, Math.ceil(chartW / 2)))),
+    [store, version, panels, tStart, tEnd, chartW]);
+  const overview = useMemo(() => downsample(store, panels[0]?.signals[0]?.key ?? 'level', tFirst, tLast, Math.ceil(chartW / 2)),
+    [store, version, panels, tFirst, tLast, chartW]);
+
+  // Vertical layout and value scale of each panel
+  const layout = panels.map((panel, i) => {
+    const top = m.t + i * (panelH + PANEL_GAP);
+    const plotTop = top + HEADER_H;
+    const plotH = panelH - HEADER_H;
+    let [min, max] = [panel.axis.min, panel.axis.max];
+    if (panel.axis.auto) {
+      const values = traces[i].flatMap(points => points.map(p => p.v));
+      [min, max] = values.length ? getAutoRange(Math.min(...values), Math.max(...values)) : [0, 1];
+    }
+    if (!(max > min)) max = min + 1;
+    const getY = (v: number) => plotTop + plotH - ((Math.max(min, Math.min(max, v)) - min) / (max - min)) * plotH;
+    return { panel, top, plotTop, plotH, min, max, getY };
+  });
+  const plotBottom = layout.length ? layout[layout.length - 1].plotTop + layout[layout.length - 1].plotH : m.t;
+
+  const clampEnd = (next: number) => {
+    const min = tFirst + span * (1 - LEAD);
+    const value = Math.max(min, next);
+    return value >= liveEnd - 1e-6 ? null : value;
+  };
+
+  // The wheel listener has to be non-passive to keep the page from scrolling
+  const view = useRef({ span, tEnd, following: end === null, tFirst, tLast, getT });
+  view.current = { span, tEnd, following: end === null, tFirst, tLast, getT };
+  useEffect(() => {
+    const svg = svgRef.current;
+    if (!svg) return;
+    const onWheel = (e: WheelEvent) => {
+      e.preventDefault();
+      const v = view.current;
+      const fullSpan = Math.max(DEFAULT_SPAN, (v.tLast - v.tFirst) / (1 - LEAD));
+      const next = Math.max(MIN_SPAN, Math.min(fullSpan, v.span * (e.deltaY > 0 ? 1.25 : 0.8)));
+      if (next === v.span) return;
+      setSpan(next);
+      if (v.following) return;
+      // Keep the time under the cursor where it is
+      const x = e.clientX - svg.getBoundingClientRect().left;
+      const t = v.getT(x);
+      setEnd(t + (v.tEnd - t) * next / v.span);
+    };
+    svg.addEventListener('wheel', onWheel, { passive: false });
+    return () => svg.removeEventListener('wheel', onWheel);
+  }, [hasData]);
+
+  const scrubY = h - SCRUB_H - 4;
+  const scrubTo = (x: number) => {
+    const t = tFirst + ((x - m.l) / chartW) * Math.max(1e-6, tLast - tFirst);
+    setEnd(clampEnd(t + span / 2));
+  };
+  const localX = (e: React.MouseEvent) => e.clientX - svgRef.current!.getBoundingClientRect().left;
+  const localY = (e: React.MouseEvent) => e.clientY - svgRef.current!.getBoundingClientRect().top;
+
+  const onMouseDown = (e: React.MouseEvent) => {
+    const x = localX(e);
+    drag.current = { mode: localY(e) > scrubY - 2 ? 'SCRUB' : 'PAN', x, end: tEnd };
+    if (drag.current.mode === 'SCRUB') scrubTo(x);
+  };
+  const onMouseMove = (e: React.MouseEvent) => {
+    const x = localX(e);
+    const d = drag.current;
+    if (d?.mode === 'PAN') setEnd(clampEnd(d.end - ((x - d.x) / chartW) * span));
+    else if (d?.mode === 'SCRUB') scrubTo(x);
+    setHoverX(!d && x >= m.l && x <= w - m.r && localY(e) >= m.t && localY(e) <= plotBottom ? x : null);
+  };
+  const endDrag = () => { drag.current = null; };
+
+  // --- Configuration ---
+  const updatePanel = (id: string, patch: Partial<ChartPanel>) => onPanelsChange(panels.map(p => p.id === id ? { ...p, ...patch } : p));
+  const updateAxis = (panel: ChartPanel, patch: Partial<ChartAxis>) => updatePanel(panel.id, { axis: { ...panel.axis, ...patch } });
+  const addSignal = (panel: ChartPanel, key: string) => updatePanel(panel.id, { signals: [...panel.signals, { key, color: nextSignalColor(panel) }] });
+  const signalGroups = Array.from(new Set(signals.map(s => s.group)));
+
+  // --- Export ---
+  const getSvgText = () => {
+    const clone = svgRef.current!.cloneNode(true) as SVGSVGElement;
+    clone.setAttribute('xmlns', 'http://www.w3.org/2000/svg');
+    clone.querySelectorAll('[data-export="skip"]').forEach(el => el.remove());
+    return new XMLSerializer().serializeToString(clone);
+  };
+  const exportSvg = () => downloadBlob(new Blob([getSvgText()], { type: 'image/svg+xml' }), `${fileName}.svg`);
+  const exportPng = async () => {
+    try {
+      downloadBlob(await svgToPng(getSvgText(), w, h), `${fileName}.png`);
+      setExportError(null);
+    } catch (err) {
+      setExportError(`PNG 导出失败: ${err instanceof Error ? err.message : String(err)}`);
+    }
+  };
+
+  if (!hasData) return <div ref={containerRef} className="w-full h-full bg-slate-950 flex items-center justify-center text-xs text-slate-600 animate-pulse">等待仿真数据...</div>;
+
+  const toPath = (points: { t: number; v: number }[], getY: (v: number) => number) =>
+    points.length < 2 ? '' : points.map(p => `${getX(p.t).toFixed(1)},${getY(p.v).toFixed(1)}`).join(' ');
+
+  const lastRow = store.length - 1;
+  const predictionPath = (key: 'level' | 'flowOut', getY: (v: number) => number) => !prediction?.length ? '' :
+    toPath([{ t: tLast, v: getValue(store, key, lastRow) }, ...prediction.map(p => ({ t: p.t, v: p[key] }))], getY);
+  const xNow = getX(tLast);
+
+  // Crosshair on the sample nearest the cursor
+  const hoverRow = hoverX === null ? -1 : findNearestRow(store, getT(hoverX));
+  const hoverT = hoverRow >= 0 ? store.time[hoverRow] : 0;
+
+  const scrubRange = Math.max(1e-6, tLast - tFirst);
+  const getScrubX = (t: number) => m.l + ((t - tFirst) / scrubRange) * chartW;
+  const overviewValues = overview.map(p => p.v);
+  const [oMin, oMax] = overviewValues.length ? getAutoRange(Math.min(...overviewValues), Math.max(...overviewValues)) : [0, 1];
+  const overviewPath = overview.length < 2 ? '' : overview.map(p => `${getScrubX(p.t).toFixed(1)},${(scrubY + SCRUB_H - ((p.v - oMin) / (oMax - oMin)) * SCRUB_H).toFixed(1)}`).join(' ');
+  const windowX0 = Math.max(m.l, getScrubX(tStart));
+  const windowX1 = Math.min(w - m.r, getScrubX(Math.min(tEnd, tLast)));
+
+  return (
+    <div ref={containerRef} className="w-full h-full relative bg-slate-950 rounded-lg border border-slate-800 overflow-hidden select-none">
+       <svg ref={svgRef} width={w} height={h} className="absolute inset-0 z-10 cursor-crosshair" fontFamily={MONO}
+            onMouseDown={onMouseDown} onMouseMove={onMouseMove} onMouseUp={endDrag} onMouseLeave={() => { endDrag(); setHoverX(null); }}>
+          <defs>
+             <linearGradient id="gradLevel" x1="0" x2="0" y1="0" y2="1">
+                <stop offset="0" stopColor="#06b6d4" stopOpacity="0.2"/>
+                <stop offset="1" stopColor="#06b6d4" stopOpacity="0"/>
+             </linearGradient>
+             {layout.map(({ panel, plotTop, plotH }) => (
+                <clipPath key={panel.id} id={`trendClip-${panel.id}`}><rect x={m.l} y={plotTop} width={chartW} height={plotH}/></clipPath>
+             ))}
+          </defs>
+          <rect width={w} height={h} fill="#020617"/>
+          {faults.leakage.active && <rect data-export="skip" width={w} height={h} fill="#ef4444" opacity="0.1" className="animate-pulse"/>}
+
+          {layout.map(({ panel, top, plotTop, plotH, min, max, getY }, i) => {
+             const hasLevel = panel.signals.some(s => s.key === 'level');
+             const hasDemand = panel.signals.some(s => s.key === 'flowOut');
+             const levelPath = hasLevel ? toPath(traces[i][panel.signals.findIndex(s => s.key === 'level')], getY) : '';
+             return (
+               <g key={panel.id}>
+                  {/* Legend */}
+                  {panel.signals.map((s, k) => (
+                     <g key={s.key}>
+                        <rect x={m.l + 4 + k * 96} y={top + 4} width="8" height="3" fill={s.color}/>
+                        <text x={m.l + 16 + k * 96} y={top + 9} fontSize="9" fill="#cbd5e1">{signalInfo(s.key).label}</text>
+                     </g>
+                  ))}
+
+                  {/* Prediction Zone BG */}
+                  {xNow < w - m.r && <rect x={Math.max(m.l, xNow)} y={plotTop} width={Math.max(0, w - m.r - Math.max(m.l, xNow))} height={plotH} fill="#0f172a" opacity="0.8"/>}
+
+                  {/* Grid & Axis */}
+                  <rect x={m.l} y={plotTop} width={chartW} height={plotH} fill="none" stroke="#1e293b"/>
+                  {getTicks(min, max).map(v => (
+                     <g key={v}>
+                        <line x1={m.l} y1={getY(v)} x2={w - m.r} y2={getY(v)} stroke="#1e293b" strokeWidth="1" strokeDasharray="2 2"/>
+                        <text x={m.l - 5} y={getY(v) + 3} textAnchor="end" fontSize="9" fill="#64748b">{formatTick(v)}</text>
+                     </g>
+                  ))}
+
+                  {/* Alarm bands on the panel plotting the controlled level */}
+                  {hasLevel && alarmLimits && (
+                     <g>
+                        <rect x={m.l} y={plotTop} width={chartW} height={Math.max(0, getY(alarmLimits.HH) - plotTop)} fill="#ef4444" opacity="0.08"/>
+                        <rect x={m.l} y={getY(alarmLimits.HH)} width={chartW} height={Math.max(0, getY(alarmLimits.H) - getY(alarmLimits.HH))} fill="#f59e0b" opacity="0.1"/>
+                        <rect x={m.l} y={getY(alarmLimits.L)} width={chartW} height={Math.max(0, getY(alarmLimits.LL) - getY(alarmLimits.L))} fill="#f59e0b" opacity="0.1"/>
+                        <rect x={m.l} y={getY(alarmLimits.LL)} width={chartW} height={Math.max(0, plotTop + plotH - getY(alarmLimits.LL))} fill="#ef4444" opacity="0.08"/>
+                        {ALARM_BANDS.filter(b => alarmLimits[b] > min && alarmLimits[b] < max).map(b => (
+                           <g key={b}>
+                              <line x1={m.l} y1={getY(alarmLimits[b])} x2={w - m.r} y2={getY(alarmLimits[b])} stroke={b.length === 2 ? '#ef4444' : '#f59e0b'} strokeWidth="1" strokeDasharray="6 3" opacity="0.5"/>
+                              <text x={w - m.r - 4} y={getY(alarmLimits[b]) + (ALARM_INFO[b].high ? -2 : 8)} textAnchor="end" fontSize="8" fill={b.length === 2 ? '#f87171' : '#fbbf24'} opacity="0.7">{b}</text>
+                           </g>
+                        ))}
+                     </g>
+                  )}
+
+                  {/* NOW Line */}
+                  {xNow >= m.l && xNow <= w - m.r && <>
+                     <line x1={xNow} y1={plotTop} x2={xNow} y2={plotTop + plotH} stroke="#cbd5e1" strokeWidth="1" strokeDasharray="3 3" opacity="0.5"/>
+                     {i === 0 && <text x={xNow} y={top + 9} textAnchor="middle" fontSize="9" fontWeight="bold" fill="#94a3b8">LIVE</text>}
+                  </>}
+
+                  <g clipPath={`url(#trendClip-${panel.id})`}>
+                     {/* Data Curves */}
+                     {levelPath && <path d={`M${levelPath.split(' ')[0]?.split(',')[0]},${plotTop + plotH} ${levelPath.replace(/ /g, ' L')} V${plotTop + plotH} Z`} fill="url(#gradLevel)"/>}
+                     {panel.signals.map((s, k) => (
+                        <polyline key={s.key} points={toPath(traces[i][k], getY)} fill="none" stroke={s.color} strokeWidth={s.key === 'level' ? 2 : 1.5} strokeDasharray={DASHED.includes(s.key) ? '4 4' : undefined} opacity={s.key === 'level' ? 1 : 0.9}/>
+                     ))}
+
+                     {/* Predictions */}
+                     {hasLevel && <polyline points={predictionPath('level', getY)} fill="none" stroke="#fff" strokeWidth="2" strokeDasharray="2 2" opacity="0.4"/>}
+                     {hasDemand && <polyline points={predictionPath('flowOut', getY)} fill="none" stroke="#ef4444" strokeWidth="1.5" strokeDasharray="2 2" opacity="0.4"/>}
+                  </g>
+
+                  {/* Crosshair */}
+                  {hoverRow >= 0 && <g data-export="skip" className="pointer-events-none">
+                     <line x1={getX(hoverT)} y1={plotTop} x2={getX(hoverT)} y2={plotTop + plotH} stroke="#e2e8f0" strokeWidth="1" opacity="0.6"/>
+                     {panel.signals.filter(s => !Number.isNaN(getValue(store, s.key, hoverRow))).map(s => (
+                        <circle key={s.key} cx={getX(hoverT)} cy={getY(getValue(store, s.key, hoverRow))} r="2.5" fill={s.color} stroke="#0f172a"/>
+                     ))}
+                  </g>}
+               </g>
+             );
+          })}
+
+          {/* Shared time axis */}
+          {[0, 0.25, 0.5, 0.75, 1].map(p => (
+             <text key={p} x={m.l + chartW * p} y={plotBottom + 11} textAnchor={p === 0 ? 'start' : p === 1 ? 'end' : 'middle'} fontSize="8" fill="#64748b">{formatTime(Math.max(0, tStart + span * p))}</text>
+          ))}
+
+          {/* Overview strip: whole run of the first signal with the visible window */}
+          <g data-export="skip">
+             <rect x={m.l} y={scrubY} width={chartW} height={SCRUB_H} fill="#0f172a" stroke="#1e293b"/>
+             {overviewPath && <polyline points={overviewPath} fill="none" stroke={panels[0]?.signals[0]?.color ?? '#06b6d4'} strokeWidth="1" opacity="0.6"/>}
+             <rect x={windowX0} y={scrubY} width={Math.max(2, windowX1 - windowX0)} height={SCRUB_H} fill="#38bdf8" opacity="0.15" stroke="#38bdf8" strokeOpacity="0.6"/>
+          </g>
+       </svg>
+
+       {/* Hover readout */}
+       {hoverRow >= 0 && hoverX !== null && (
+          <div className="absolute top-6 bg-slate-900/90 border border-slate-700 rounded-md px-2 py-1 z-30 pointer-events-none text-[9px] font-mono"
+               style={hoverX > w / 2 ? { right: w - hoverX + 8 } : { left: hoverX + 8 }}>
+             <div className="text-slate-400 mb-0.5">t = {hoverT.toFixed(1)}s</div>
+             {panels.map((panel, i) => (
+                <div key={panel.id} className={i > 0 ? 'border-t border-slate-800 mt-0.5 pt-0.5' : ''}>
+                   {panel.signals.map(s => {
+                      const info = signalInfo(s.key);
+                      const v = getValue(store, s.key, hoverRow);
+                      return (
+                         <div key={s.key} className="flex justify-between gap-3">
+                            <span style={{ color: s.color }}>{info.label}</span>
+                            <span className="text-slate-200">{Number.isNaN(v) ? '—' : `${v.toFixed(3)} ${info.unit}`}</span>
+                         </div>
+                      );
+                   })}
+                </div>
+             ))}
+          </div>
+       )}
+
+       {/* Window and export controls */}
+       <div className="absolute top-0.5 left-12 right-2 flex items-center gap-2 z-20 text-[9px] font-mono text-slate-500">
+          <span>窗口 {formatTime(span)}</span>
+          {end !== null
+             ? <button onClick={() => setEnd(null)} className="px-1.5 rounded border border-cyan-700 text-cyan-400 hover:bg-cyan-900/40">回到实时 LIVE</button>
+             : <span className="text-slate-600">滚轮缩放 · 拖动平移</span>}
+          <div className="ml-auto flex items-center gap-1.5">
+             {exportError && <span className="text-red-400 flex items-center gap-1">{exportError}<X size={10} className="cursor-pointer" onClick={() => setExportError(null)}/></span>}
+             <button onClick={exportPng} title="导出 PNG" className="hover:text-white"><ImageDown size={12}/></button>
+             <button onClick={exportSvg} title="导出 SVG" className="hover:text-white"><FileCode size={12}/></button>
+             <button onClick={() => setConfigOpen(o => !o)} title="配置面板与信号" className={configOpen ? 'text-cyan-400' : 'hover:text-white'}><Settings2 size={12}/></button>
+          </div>
+       </div>
+
+       {/* Panel configuration */}
+       {configOpen && (
+          <div className="absolute top-5 right-2 bottom-2 w-64 bg-slate-900/95 border border-slate-700 rounded-md shadow-2xl z-40 overflow-y-auto p-2 space-y-2 text-[10px]">
+             <div className="flex items-center justify-between text-slate-300 font-bold">
+                <span>图表面板 Panels</span>
+                <button onClick={() => setConfigOpen(false)} className="text-slate-500 hover:text-white"><X size={12}/></button>
+             </div>
+             {panels.map((panel, i) => (
+                <div key={panel.id} className="border border-slate-700 rounded p-1.5 space-y-1.5 bg-slate-950/60">
+                   <div className="flex items-center justify-between text-slate-400">
+                      <span>面板 {i + 1}</span>
+                      <button onClick={() => onPanelsChange(panels.filter(p => p.id !== panel.id))} disabled={panels.length === 1} title="删除面板" className="hover:text-red-400 disabled:opacity-30"><Trash2 size={11}/></button>
+                   </div>
+                   {panel.signals.map(s => (
+                      <div key={s.key} className="flex items-center gap-1.5">
+                         <input type="color" value={s.color} onChange={e => updatePanel(panel.id, { signals: panel.signals.map(x => x.key === s.key ? { ...x, color: e.target.value } : x) })} className="w-4 h-4 bg-transparent border-0 p-0 cursor-pointer"/>
+                         <span className="flex-1 truncate text-slate-300">{signalInfo(s.key).label}</span>
+                         <span className="text-slate-600">{signalInfo(s.key).unit}</span>
+                         <button onClick={() => updatePanel(panel.id, { signals: panel.signals.filter(x => x.key !== s.key) })} className="text-slate-500 hover:text-red-400"><X size={10}/></button>
+                      </div>
+                   ))}
+                   <select value="" onChange={e => e.target.value && addSignal(panel, e.target.value)} className="w-full bg-slate-950 border border-slate-700 rounded px-1 py-0.5 text-slate-300 outline-none focus:border-cyan-500">
+                      <option value="">+ 添加信号…</option>
+                      {signalGroups.map(g => (
+                         <optgroup key={g} label={g}>
+                            {signals.filter(s => s.group === g && !panel.signals.some(x => x.key === s.key)).map(s => <option key={s.key} value={s.key}>{s.label} ({s.unit})</option>)}
+                         </optgroup>
+                      ))}
+                   </select>
+                   <div className="flex items-center gap-1.5 text-slate-400">
+                      <label className="flex items-center gap-1"><input type="checkbox" checked={panel.axis.auto} onChange={e => updateAxis(panel, { auto: e.target.checked })}/> 自动量程</label>
+                      <input type="number" value={panel.axis.min} disabled={panel.axis.auto} onChange={e => updateAxis(panel, { min: Number(e.target.value) })} className="w-14 bg-slate-950 border border-slate-700 rounded px-1 py-0.5 font-mono text-slate-300 outline-none disabled:opacity-40"/>
+                      <span>–</span>
+                      <input type="number" value={panel.axis.max} disabled={panel.axis.auto} onChange={e => updateAxis(panel, { max: Number(e.target.value) })} className="w-14 bg-slate-950 border border-slate-700 rounded px-1 py-0.5 font-mono text-slate-300 outline-none disabled:opacity-40"/>
+                   </div>
+                </div>
+             ))}
+             <button onClick={() => onPanelsChange([...panels, createChartPanel()])} className="w-full flex items-center justify-center gap-1 border border-dashed border-slate-600 rounded py-1 text-slate-400 hover:text-white hover:border-slate-400">
+                <Plus size={11}/> 添加面板
+             </button>
+          </div>
+       )}
+    </div>
+  );
+};
+
+export default TrendChart;
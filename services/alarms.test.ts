@@ -0,0 +1,49 @@
+import { describe, expect, it } from 'vitest';
+import { Alarm, CanvasNode } from '../types';
+import { acknowledgeAlarms, updateAlarms } from './alarms';
+
+const tank: CanvasNode = { id: 't', type: 'RESERVOIR', x: 0, y: 0, label: 'T', data: { alarms: { LL: 280, L: 290, H: 300, HH: 305 } } };
+
+const step = (alarms: Alarm[], level: number, t: number) => updateAlarms(alarms, [tank], { t: level }, t);
+
+describe('updateAlarms', () => {
+  it('raises a band once while the level stays past it', () => {
+    const first = step([], 301, 1);
+    expect(first.alarms.map(a => a.band)).toEqual(['H']);
+    expect(first.events.map(e => e.kind)).toEqual(['ALARM']);
+    const second = step(first.alarms, 302, 2);
+    expect(second.alarms).toBe(first.alarms);
+    expect(second.events).toEqual([]);
+  });
+
+  it('clears only once the level is back inside by the deadband', () => {
+    const raised = step([], 301, 1).alarms;
+    expect(step(raised, 299.9, 2).alarms[0].clearedAt).toBeNull();
+    const cleared = step(raised, 299.7, 3);
+    expect(cleared.alarms[0].clearedAt).toBe(3);
+    expect(cleared.events.map(e => e.kind)).toEqual(['RECOVERY']);
+  });
+
+  it('keeps cleared alarms until acknowledged', () => {
+    const cleared = step(step([], 301, 1).alarms, 295, 2).alarms;
+    expect(cleared).toHaveLength(1);
+    expect(acknowledgeAlarms(cleared)).toEqual([]);
+  });
+
+  it('never drops an active alarm to make room for cleared ones', () => {
+    const active = step([], 281, 0).alarms.filter(a => a.band === 'L');
+    const cleared: Alarm[] = Array.from({ length: 150 }, (_, i) => ({
+      id: `c${i}`, nodeId: 't', band: 'H', limit: 300, raisedAt: i + 1, clearedAt: i + 1.5, acknowledged: false
+    }));
+    const { alarms, events } = step([...active, ...cleared], 285, 200);
+    expect(alarms).toHaveLength(100);
+    expect(alarms[0]).toBe(active[0]);
+    expect(alarms[alarms.length - 1].id).toBe('c149');
+    expect(events).toEqual([]);
+  });
+
+  it('drops alarms of reservoirs no longer on the canvas', () => {
+    const raised = step([], 301, 1).alarms;
+    expect(updateAlarms(raised, [], {}, 2).alarms).toEqual([]);
+  });
+});
@@ -0,0 +1,65 @@
+import { Alarm, AlarmBand, AlarmLimits, CanvasNode, EventLogEntry } from '../types';
+import { INITIAL_LEVEL } from './hydraulicSolver';
+
+export const ALARM_BANDS: AlarmBand[] = ['LL', 'L', 'H', 'HH'];
+export const DEFAULT_ALARM_LIMITS: AlarmLimits = {
+  LL: INITIAL_LEVEL - 10,
+  L: INITIAL_LEVEL - 5,
+  H: INITIAL_LEVEL + 5,
+  HH: INITIAL_LEVEL + 8
+};
+export const ALARM_INFO: Record<AlarmBand, { label: string; high: boolean }> = {
+  LL: { label: '低低', high: false },
+  L: { label: '低', high: false },
+  H: { label: '高', high: true },
+  HH: { label: '高高', high: true }
+};
+const DEADBAND = 0.2;   // m, a raised alarm clears only this far back inside its limit
+const MAX_ALARMS = 100; // Past this the oldest cleared alarms go; active ones are always kept
+
+export const getAlarmLimits = (node: CanvasNode): AlarmLimits => ({ ...DEFAULT_ALARM_LIMITS, ...node.data.alarms });
+
+// Cleared and acknowledged alarms drop out of the list
+const prune = (alarms: Alarm[]) => alarms.filter(a => !(a.acknowledged && a.clearedAt !== null));
+
+// An active alarm that went missing would be raised again with a new id on the next step
+const cap = (alarms: Alarm[]) => {
+  let excess = alarms.length - MAX_ALARMS;
+  return excess > 0 ? alarms.filter(a => a.clearedAt === null || excess-- <= 0) : alarms;
+};
+
+const isPast = (band: AlarmBand, level: number, limit: number) => ALARM_INFO[band].high ? level > limit : level < limit;
+
+/**
+ * Compare each reservoir level with its alarm limits at time `t`. A band is raised when the level
+ * crosses its limit and cleared once it is back inside by the deadband. Cleared alarms stay listed
+ * until acknowledged; raising and clearing are also returned as log events.
+ */
+export const updateAlarms = (alarms: Alarm[], reservoirs: CanvasNode[], levels: Record<string, number>, t: number) => {
+  const events: EventLogEntry[] = [];
+  let next = alarms;
+  reservoirs.forEach(node => {
+    const level = levels[node.id];
+    if (level === undefined) return;
+    const limits = getAlarmLimits(node);
+    ALARM_BANDS.forEach(band => {
+      const limit = limits[band];
+      const active = next.find(a => a.nodeId === node.id && a.band === band && a.clearedAt === null);
+      if (!active && isPast(band, level, limit)) {
+        next = [...next, { id: `${node.id}:${band}:${t.toFixed(1)}`, nodeId: node.id, band, limit, raisedAt: t, clearedAt: null, acknowledged: false }];
+        events.push({ t, kind: 'ALARM', nodeId: node.id, message: `${node.label} ${band} ${ALARM_INFO[band].label}水位报警 ${level.toFixed(2)} m (限值 ${limit} m)` });
+      } else if (active && !isPast(band, level, ALARM_INFO[band].high ? limit - DEADBAND : limit + DEADBAND)) {
+        next = next.map(a => a === active ? { ...a, clearedAt: t } : a);
+        events.push({ t, kind: 'RECOVERY', nodeId: node.id, message: `${node.label} ${band} 报警解除 ${level.toFixed(2)} m` });
+      }
+    });
+  });
+  // Alarms on reservoirs that no longer exist cannot clear by themselves
+  const ids = new Set(reservoirs.map(n => n.id));
+  next = cap(prune(next.filter(a => ids.has(a.nodeId))));
+  return { alarms: next.length === alarms.length && next.every((a, i) => a === alarms[i]) ? alarms : next, events };
+};
+
+// Acknowledge one alarm, or all of them without an id
+export const acknowledgeAlarms = (alarms: Alarm[], id?: string) =>
+  prune(alarms.map(a => (id === undefined || a.id === id) ? { ...a, acknowledged: true } : a));
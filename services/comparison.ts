@@ -0,0 +1,122 @@
+import {
+  CanvasNode, ComparisonKpis, ComparisonPoint, ComparisonResult, ComparisonVariant, CostConfig,
+  DesignParadigm, DisturbanceConfig, HistorySample, SimulationInputs, TimelineEvent
+} from '../types';
+import { analyzeTopology } from './hydraulicSolver';
+import { DT, loadScenario, stepSimulation } from './simulationEngine';
+import { summarizeCosts } from './costs';
+
+export const SETTLING_BAND = 0.5; // m, error band a settled level stays within
+const SETTLING_HOLD = 10;         // s inside the band before an excursion counts as over
+const TRACE_INTERVAL = 1;         // s between points kept for the overlay charts
+const CHUNK_STEPS = 500;          // Steps run between yields to the UI
+
+export const createVariant = (paradigm: DesignParadigm, id: string = `v${Date.now()}`, name: string = paradigm.name): ComparisonVariant => ({
+  id, name, paradigm
+});
+
+// The same canvas with the controlled tank resized to the variant's design
+export const applyVariant = (inputs: SimulationInputs, variant: ComparisonVariant): SimulationInputs => {
+  const { controlledReservoirId } = analyzeTopology(inputs.nodes, inputs.edges);
+  const nodes = inputs.nodes.map((n): CanvasNode => n.id === controlledReservoirId ? { ...n, data: { ...n.data, area: variant.paradigm.tankArea } } : n);
+  return { ...inputs, nodes, paradigm: variant.paradigm };
+};
+
+/**
+ * Running KPI tracker. An excursion starts when the error leaves the settling band and ends once
+ * it has stayed back inside for SETTLING_HOLD; error on the far side of the setpoint during an
+ * excursion is overshoot, and the time from its start to the final return is its settling time.
+ */
+export const createKpiTracker = () => {
+  let iae = 0;
+  let ise = 0;
+  let overshoot = 0;
+  let settlingTime = 0;
+  let unsettled = false;
+  let excursion = 0;
+  let excursionStart = 0;
+  let insideSince: number | null = null;
+
+  const add = (sample: Pick<HistorySample, 't' | 'level' | 'target'>, dt: number) => {
+    const e = sample.target - sample.level;
+    iae += Math.abs(e) * dt;
+    ise += e * e * dt;
+    if (excursion !== 0 && Math.sign(e) === -excursion) overshoot = Math.max(overshoot, Math.abs(e));
+    if (Math.abs(e) <= SETTLING_BAND) {
+      if (insideSince === null) insideSince = sample.t;
+      if (excursion !== 0 && sample.t - insideSince >= SETTLING_HOLD) {
+        settlingTime = Math.max(settlingTime, insideSince - excursionStart);
+        excursion = 0;
+      }
+    } else {
+      insideSince = null;
+      if (excursion === 0) {
+        excursion = Math.sign(e);
+        excursionStart = sample.t;
+      }
+    }
+  };
+
+  const finish = () => {
+    // An excursion still open at the end counts if the level is already back in the band
+    if (excursion !== 0) {
+      if (insideSince === null) unsettled = true;
+      else settlingTime = Math.max(settlingTime, insideSince - excursionStart);
+    }
+    return { iae, ise, overshoot, settlingTime: unsettled ? null : settlingTime };
+  };
+
+  return { add, finish };
+};
+
+const yieldToUi = () => new Promise<void>(resolve => setTimeout(resolve, 0));
+
+/**
+ * Replay one scenario for every variant from t = 0 with the same seed, yielding to the UI between
+ * chunks. Reports overall progress in [0, 1]; an aborted run resolves with the variants finished so far.
+ */
+export const runComparison = async (
+  variants: ComparisonVariant[],
+  scenario: { demandPattern: DisturbanceConfig; setpointPattern: DisturbanceConfig; timeline: TimelineEvent[]; seed: number },
+  inputs: SimulationInputs,
+  costs: CostConfig,
+  duration: number,
+  options: { onProgress?: (progress: number) => void; signal?: AbortSignal } = {}
+): Promise<ComparisonResult[]> => {
+  const steps = Math.round(duration / DT);
+  const results: ComparisonResult[] = [];
+  for (let v = 0; v < variants.length; v++) {
+    const variant = variants[v];
+    const variantInputs = applyVariant(inputs, variant);
+    const tracker = createKpiTracker();
+    const trace: ComparisonPoint[] = [];
+    let state = loadScenario(scenario);
+    let nextTrace = 0;
+    for (let i = 0; i < steps; i++) {
+      state = stepSimulation(state, variantInputs, DT);
+      const sample = state.sample!;
+      tracker.add(sample, DT);
+      if (sample.t >= nextTrace - 1e-9) {
+        trace.push({ t: sample.t, level: sample.level, target: sample.target, flowIn: sample.flowIn, flowOut: sample.flowOut });
+        nextTrace += TRACE_INTERVAL;
+      }
+      if ((i + 1) % CHUNK_STEPS === 0) {
+        options.onProgress?.((v + (i + 1) / steps) / variants.length);
+        await yieldToUi();
+        if (options.signal?.aborted) return results;
+      }
+    }
+    const tankArea = variantInputs.nodes.filter(n => n.type === 'RESERVOIR').reduce((sum, n) => sum + (n.data.area || 0), 0);
+    const summary = summarizeCosts(state.energy, costs, variant.paradigm.algorithm, tankArea);
+    const kpis: ComparisonKpis = {
+      ...tracker.finish(),
+      spill: summary.waterLost,
+      unmet: summary.unmet,
+      energy: summary.pumpEnergy,
+      cost: summary.runCost
+    };
+    results.push({ variant, kpis, trace });
+  }
+  options.onProgress?.(1);
+  return results;
+};
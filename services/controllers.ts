@@ -0,0 +1,88 @@
+import { ControllerGains, ControlTuning, MpcConfig, ModelMismatch, SmithMemory } from '../types';
+
+export const DEFAULT_PID_GAINS: ControllerGains = { kp: 5, ki: 0.5, kd: 0.1, integralLimit: 500, bias: 50 };
+export const DEFAULT_SMITH_GAINS: ControllerGains = { kp: 8, ki: 0.2, kd: 0, integralLimit: 500, bias: 50 };
+
+export const DEFAULT_MPC_CONFIG: MpcConfig = {
+  predictionHorizon: 30,
+  controlHorizon: 5,
+  sampleTime: 1.0,
+  levelWeight: 1,
+  moveWeight: 0.001,
+  flowMin: 0,
+  flowMax: 250,
+  levelMin: 280,
+  levelMax: 310
+};
+
+export const DEFAULT_CONTROL_TUNING: ControlTuning = {
+  PID: DEFAULT_PID_GAINS,
+  SMITH: DEFAULT_SMITH_GAINS,
+  MPC: DEFAULT_MPC_CONFIG
+};
+
+export const DEFAULT_MODEL_MISMATCH: ModelMismatch = { areaError: 0, delayError: 0 };
+
+const OUTPUT_HISTORY_SIZE = 2000;
+const MAX_MODEL_DELAY = 3600;      // s, longest transport delay the internal model carries
+const MAX_OUTPUT_HISTORY = 36001;  // Commands kept at most: MAX_MODEL_DELAY at the 0.1 s step
+
+export interface PidMemory {
+  integral: number;
+  lastError: number;
+}
+
+// Positional PID with a clamped integral state (anti-windup)
+export const computePid = (gains: ControllerGains, error: number, memory: PidMemory, dt: number) => {
+  let integral = memory.integral + error * dt;
+  if (Math.abs(integral) > gains.integralLimit) integral = Math.sign(integral) * gains.integralLimit;
+  const derivative = (error - memory.lastError) / dt;
+  const out = gains.kp * error + gains.ki * integral + gains.kd * derivative + gains.bias;
+  return { out, integral };
+};
+
+// --- INTERNAL PLANT MODEL ---
+export interface PlantModel {
+  area: number;  // m2
+  delay: number; // s
+}
+
+export const getInternalModel = (area: number, delay: number, mismatch: ModelMismatch): PlantModel => ({
+  area: Math.max(1, area * (1 + mismatch.areaError / 100)),
+  delay: Math.min(MAX_MODEL_DELAY, Math.max(0, delay * (1 + mismatch.delayError / 100)))
+});
+
+// Steps between a command and its arrival at the tank, matching the pipe buffer read-out
+export const getDelaySteps = (delay: number, dt: number) => Math.max(0, Math.floor(delay / dt) - 1);
+
+// Keeps at least `keep` commands, up to MAX_OUTPUT_HISTORY, so long transport delays can still be looked back over
+export const recordOutput = (history: number[], out: number, keep = 0) => {
+  const size = Math.min(MAX_OUTPUT_HISTORY, Math.max(OUTPUT_HISTORY_SIZE, keep));
+  const next = history.slice(Math.max(0, history.length + 1 - size));
+  next.push(out);
+  return next;
+};
+
+// --- SMITH PREDICTOR ---
+export const createSmithMemory = (): SmithMemory => ({ undelayed: 0, delayed: 0 });
+
+/**
+ * Feedback seen by the Smith controller: measurement plus the model response still held back by
+ * the delay. The tank integrates, so a plain Smith predictor settles θ·d/A off target under steady
+ * demand; the measured demand over the delay window is taken out of the prediction to remove it.
+ */
+export const getSmithFeedback = (level: number, memory: SmithMemory, model: PlantModel, demand: number) =>
+  level + memory.undelayed - memory.delayed - model.delay * demand / model.area;
+
+/**
+ * Advance both internal tank models after `history` has been extended with the applied command.
+ * Only their difference matters, so the pair is re-based on the delayed copy to stay bounded.
+ */
+export const updateSmithMemory = (memory: SmithMemory, history: number[], model: PlantModel, dt: number): SmithMemory => {
+  const lag = getDelaySteps(model.delay, dt);
+  const current = history[history.length - 1] ?? 0;
+  const delayed = history.length > lag ? history[history.length - 1 - lag] : 0;
+  const undelayedLevel = memory.undelayed + current * dt / model.area;
+  const delayedLevel = memory.delayed + delayed * dt / model.area;
+  return { undelayed: undelayedLevel - delayedLevel, delayed: 0 };
+};
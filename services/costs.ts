@@ -0,0 +1,94 @@
+import { ControlAlgorithm, CostConfig, CostSummary, EnergyAccount, HistorySample, TariffPeriod } from '../types';
+
+const HOURS = 24;
+const SECONDS_PER_YEAR = 365 * 24 * 3600;
+
+export const DEFAULT_TARIFF: TariffPeriod[] = [
+  { name: '谷', start: 22, end: 8, price: 0.32 },
+  { name: '平', start: 8, end: 10, price: 0.68 },
+  { name: '峰', start: 10, end: 12, price: 1.12 },
+  { name: '平', start: 12, end: 18, price: 0.68 },
+  { name: '峰', start: 18, end: 22, price: 1.12 }
+];
+
+export const DEFAULT_COST_CONFIG: CostConfig = {
+  tariff: DEFAULT_TARIFF,
+  startHour: 8,
+  generationPrice: 0.35,
+  spillPenalty: 0.5,
+  unmetPenalty: 5,
+  tankUnitCost: 8000,
+  tankLifetime: 30,
+  computeRate: { PID: 0.01, SMITH: 0.05, MPC: 1.5 }
+};
+
+export const createEnergyAccount = (): EnergyAccount => ({
+  pumpEnergy: new Array(HOURS).fill(0),
+  generation: new Array(HOURS).fill(0),
+  spilled: 0,
+  overtopped: 0,
+  unmet: 0,
+  duration: 0
+});
+
+/**
+ * Add one recorded step, starting at time `t`, to the run totals. Power in MW over dt seconds
+ * is booked as kWh in the hour of the run clock the step starts in.
+ */
+export const accumulateEnergy = (account: EnergyAccount, sample: HistorySample, t: number, dt: number): EnergyAccount => {
+  const hour = Math.floor(t / 3600) % HOURS;
+  const pumpEnergy = [...account.pumpEnergy];
+  const generation = [...account.generation];
+  pumpEnergy[hour] += sample.pumpPower * 1000 * dt / 3600;
+  generation[hour] += sample.power * 1000 * dt / 3600;
+  let spilled = account.spilled;
+  let overtopped = account.overtopped;
+  let unmet = account.unmet;
+  Object.values(sample.nodes).forEach(f => {
+    spilled += (f.spill ?? 0) * dt;
+    overtopped += (f.overtop ?? 0) * dt;
+    unmet += (f.unmet ?? 0) * dt;
+  });
+  return { pumpEnergy, generation, spilled, overtopped, unmet, duration: account.duration + dt };
+};
+
+const inPeriod = (p: TariffPeriod, hour: number) =>
+  p.start < p.end ? hour >= p.start && hour < p.end : hour >= p.start || hour < p.end;
+
+// Tariff band covering a clock hour, first match wins
+export const findTariffPeriod = (tariff: TariffPeriod[], hour: number) => tariff.find(p => inPeriod(p, hour));
+
+// Clock hours no band covers; energy drawn in them is priced at zero
+export const getTariffGaps = (tariff: TariffPeriod[]) =>
+  Array.from({ length: HOURS }, (_, h) => h).filter(h => !findTariffPeriod(tariff, h));
+
+export const getTankCost = (tankArea: number, config: CostConfig) => tankArea * config.tankUnitCost;
+
+/**
+ * Price a run: pumping at the time-of-use tariff, generation at the feed-in price, water losses
+ * and unmet demand at their penalties, and the controller's computing time. The run is then
+ * repeated over a year to set its operating cost against the annualised tank construction cost.
+ */
+export const summarizeCosts = (
+  account: EnergyAccount, config: CostConfig, algorithm: ControlAlgorithm, tankArea: number
+): CostSummary => {
+  let energyCost = 0;
+  account.pumpEnergy.forEach((kwh, h) => {
+    energyCost += kwh * (findTariffPeriod(config.tariff, (config.startHour + h) % HOURS)?.price ?? 0);
+  });
+  const pumpEnergy = account.pumpEnergy.reduce((a, b) => a + b, 0);
+  const generation = account.generation.reduce((a, b) => a + b, 0);
+  const generationRevenue = generation * config.generationPrice;
+  const waterLost = account.spilled + account.overtopped;
+  const lossCost = waterLost * config.spillPenalty;
+  const unmetCost = account.unmet * config.unmetPenalty;
+  const computeCost = config.computeRate[algorithm] * account.duration / 3600;
+  const runCost = energyCost - generationRevenue + lossCost + unmetCost + computeCost;
+  const tankCost = getTankCost(tankArea, config);
+  return {
+    pumpEnergy, generation, energyCost, generationRevenue, waterLost, lossCost,
+    unmet: account.unmet, unmetCost, computeCost, runCost, tankCost,
+    annualOperating: account.duration > 0 ? runCost * SECONDS_PER_YEAR / account.duration : 0,
+    annualCapital: config.tankLifetime > 0 ? tankCost / config.tankLifetime : tankCost
+  };
+};
@@ -31,6 +31,33 @@ const formatHistory = (messages: ChatMessage[]): Content[] => {
     });
 };
 
+const formatControlParams = (params: ControlParams) => {
+  const lines: string[] = [];
+  if (params.gains) {
+    lines.push(`Kp: ${params.gains.kp}  Ki: ${params.gains.ki}  Kd: ${params.gains.kd}`);
+    lines.push(`积分限幅: ±${params.gains.integralLimit}`);
+    lines.push(`输出偏置: ${params.gains.bias} m3/s`);
+  }
+  if (params.mpc) {
+    lines.push(`预测时域 Np: ${params.mpc.predictionHorizon} × ${params.mpc.sampleTime}s  控制时域 Nc: ${params.mpc.controlHorizon}`);
+    lines.push(`权重: 水位 ${params.mpc.levelWeight} / 动作 ${params.mpc.moveWeight}`);
+    lines.push(`约束: 流量 ${params.mpc.flowMin}~${params.mpc.flowMax} m3/s, 水位 ${params.mpc.levelMin}~${params.mpc.levelMax} m`);
+  }
+  if (params.mismatch) {
+    lines.push(`内部模型失配: 面积 ${params.mismatch.areaError}%  滞后 ${params.mismatch.delayError}%`);
+  }
+  return lines.join('\n    ');
+};
+
+const formatSensorFaults = (faults: FaultState) => {
+  const active: string[] = [];
+  if (faults.sensorDrift.active) active.push(`漂移 ${faults.sensorDrift.value} mm/s`);
+  if (faults.sensorNoise.active) active.push(`噪声 σ=${faults.sensorNoise.value} cm`);
+  if (faults.sensorStuck.active) active.push('卡死');
+  if (faults.sensorDropout.active) active.push(`丢包 ${faults.sensorDropout.value}%`);
+  return active.length ? active.join(', ') : 'NORMAL';
+};
+
 export const streamGeminiResponse = async function* (
   history: ChatMessage[],
   newMessage: string,
@@ -46,6 +73,9 @@ export const streamGeminiResponse = async function* (
     类型: ${systemContext.paradigm.type}
     调蓄池物理面积: ${systemContext.paradigm.tankArea} m²
     控制算法: ${systemContext.paradigm.algorithm}
+
+    [控制器整定]
+    ${formatControlParams(systemContext.params)}
     
     [核心状态]
     设定值 (SP): ${systemContext.state.targetLevel.toFixed(2)}m
@@ -59,9 +89,9 @@ export const streamGeminiResponse = async function* (
     用户需求(扰动): ${systemContext.state.outflow.toFixed(2)} m3/s
     
     [故障状态]
-    泄漏: ${systemContext.faults.leakage ? 'YES' : 'NO'}
-    泵效率: ${systemContext.faults.pumpEfficiency ? 'LOW' : 'NORMAL'}
-    传感器: ${systemContext.faults.sensorDrift ? 'DRIFTING' : 'NORMAL'}
+    泄漏: ${systemContext.faults.leakage.active ? 'YES' : 'NO'}
+    泵效率: ${systemContext.faults.pumpEfficiency.active ? 'LOW' : 'NORMAL'}
+    传感器: ${formatSensorFaults(systemContext.faults)}
   `;
 
   // Option A: Python Backend (Future Proofing)
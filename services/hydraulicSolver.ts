@@ -0,0 +1,401 @@
+import { CanvasNode, CanvasEdge, NodeType, NodeFlow, TopologyIssue, TopologyReport, FaultState } from '../types';
+import { isMainOutlet } from './ports';
+import { getPumpHead, getPumpPower, getPumpSpec, getUnitCapacity } from './pumps';
+import { getFrictionLoss, getLastInflow, getPipeDelay, routePipe } from './pipeHydraulics';
+
+export const INITIAL_LEVEL = 295;
+export const OVERFLOW_LEVEL = INITIAL_LEVEL + 10; // Default spillway crest (m)
+export const MAX_LEVEL = INITIAL_LEVEL + 20;      // Default top of the reservoir wall (m)
+export const SPILLWAY_CAPACITY = 200;             // Default spillway discharge limit (m3/s)
+const SOURCE_HEAD = 300;     // m
+const GRAVITY = 9.81;
+const WATER_DENSITY = 1000;
+
+// Nodes that terminate a flow path: water arriving here is stored or consumed.
+const SINK_TYPES: NodeType[] = ['RESERVOIR', 'DEMAND'];
+// Flow-limiting devices whose discharge depends on opening and head difference.
+const HEAD_DRIVEN_TYPES: NodeType[] = ['VALVE', 'GATE', 'TURBINE'];
+
+// --- TOPOLOGY ---
+const collectReachable = (starts: string[], next: (id: string) => string[]) => {
+  const seen = new Set<string>(starts);
+  const queue = [...starts];
+  while (queue.length) {
+    const id = queue.shift()!;
+    next(id).forEach(n => {
+      if (!seen.has(n)) { seen.add(n); queue.push(n); }
+    });
+  }
+  return seen;
+};
+
+/**
+ * Traverse the canvas graph from every SOURCE towards every sink and report how the
+ * network can be solved. Nodes inside cycles are left out of `order` and never carry flow.
+ */
+export const analyzeTopology = (nodes: CanvasNode[], edges: CanvasEdge[]): TopologyReport => {
+  const issues: TopologyIssue[] = [];
+  const nodeIds = new Set(nodes.map(n => n.id));
+  const upstream: Record<string, CanvasEdge[]> = {};
+  const downstream: Record<string, CanvasEdge[]> = {};
+  nodes.forEach(n => { upstream[n.id] = []; downstream[n.id] = []; });
+
+  edges.forEach(e => {
+    if (!nodeIds.has(e.source) || !nodeIds.has(e.target)) {
+      issues.push({ kind: 'DANGLING_EDGE', severity: 'error', edgeId: e.id, message: `连接 ${e.id} 指向不存在的节点` });
+      return;
+    }
+    downstream[e.source].push(e);
+    upstream[e.target].push(e);
+  });
+
+  // Kahn's algorithm: whatever cannot be ordered sits on a cycle
+  const indegree: Record<string, number> = {};
+  nodes.forEach(n => { indegree[n.id] = upstream[n.id].length; });
+  const queue = nodes.filter(n => indegree[n.id] === 0).map(n => n.id);
+  const order: string[] = [];
+  while (queue.length) {
+    const id = queue.shift()!;
+    order.push(id);
+    downstream[id].forEach(e => {
+      indegree[e.target] -= 1;
+      if (indegree[e.target] === 0) queue.push(e.target);
+    });
+  }
+  const ordered = new Set(order);
+
+  const sources = nodes.filter(n => n.type === 'SOURCE').map(n => n.id);
+  const sinks = nodes.filter(n => SINK_TYPES.includes(n.type)).map(n => n.id);
+  const fed = collectReachable(sources, id => downstream[id].map(e => e.target));
+  const drained = collectReachable(sinks, id => upstream[id].map(e => e.source));
+
+  nodes.forEach(n => {
+    if (!upstream[n.id].length && !downstream[n.id].length) {
+      issues.push({ kind: 'DISCONNECTED', severity: 'warning', nodeId: n.id, message: `${n.label} 未连接任何管线` });
+    } else if (!ordered.has(n.id)) {
+      issues.push({ kind: 'CYCLE', severity: 'error', nodeId: n.id, message: `${n.label} 位于环路中，无法求解` });
+    } else if (n.type !== 'SOURCE' && !fed.has(n.id)) {
+      issues.push({ kind: 'NO_SOURCE', severity: 'warning', nodeId: n.id, message: `${n.label} 上游没有水源` });
+    } else if (!SINK_TYPES.includes(n.type) && !drained.has(n.id)) {
+      issues.push({ kind: 'NO_OUTLET', severity: 'warning', nodeId: n.id, message: `${n.label} 下游没有调蓄池或用户` });
+    }
+  });
+
+  // The controller regulates the first reservoir fed by a pump
+  const pumps = nodes.filter(n => n.type === 'PUMP' && ordered.has(n.id)).map(n => n.id);
+  const pumped = collectReachable(pumps, id => downstream[id].map(e => e.target));
+  const controlledReservoirId = order.find(id => pumped.has(id) && nodes.find(n => n.id === id)?.type === 'RESERVOIR') || null;
+  if (pumps.length && !controlledReservoirId) {
+    issues.push({ kind: 'NO_RESERVOIR', severity: 'warning', message: '泵站下游没有可调节的调蓄池' });
+  }
+
+  return { order, upstream, downstream, controlledReservoirId, issues };
+};
+
+// Longest accumulated pipe delay on any path from a pump to `targetId` (s)
+export const getTransportDelay = (nodes: CanvasNode[], topology: TopologyReport, targetId: string) => {
+  const delay: Record<string, number> = {};
+  topology.order.forEach(id => {
+    const node = nodes.find(n => n.id === id)!;
+    const own = node.type === 'PIPE' ? getPipeDelay(node) : 0;
+    const fromUp = topology.upstream[id].filter(e => e.source in delay).map(e => delay[e.source]);
+    if (node.type === 'PUMP') delay[id] = 0;
+    else if (fromUp.length) delay[id] = Math.max(...fromUp) + own;
+  });
+  return delay[targetId] ?? 0;
+};
+
+// --- FLOW SOLVER ---
+export interface HydraulicInputs {
+  nodes: CanvasNode[];
+  topology: TopologyReport;
+  levels: Record<string, number>;
+  pipeBuffers: Record<string, number[]>; // Routing state per pipe, see routePipe
+  pumpCommand: number; // Total flow requested from all pumps (m3/s)
+  pumpUnits?: Record<string, number>; // Units running in each station; every unit when omitted
+  demand: number;      // Total consumer demand (m3/s)
+  faults: FaultState;
+  dt: number;
+}
+
+export interface HydraulicResult {
+  flows: Record<string, NodeFlow>;
+  edgeFlows: Record<string, number>;
+  levels: Record<string, number>;
+  pipeBuffers: Record<string, number[]>;
+  pumpFlow: number;
+  power: number; // Total turbine generation (MW)
+  pumpPower: number; // Total pump consumption (MW)
+}
+
+// Installed capacity of a pump station: every unit at the end of its curve, derated
+export const getPumpCapacity = (node: CanvasNode, faults: FaultState) => getPumpSpec(node).units * getUnitCapacity(node, faults);
+
+// --- DEVICE MODELS ---
+export const getOpening = (node: CanvasNode) => Math.max(0, Math.min(100, node.data.open ?? 100));
+
+// Orifice equation: Q = Cd·A·(open/100)·√(2g·Δh)
+export const getValveFlow = (node: CanvasNode, dh: number) => {
+  if (dh <= 0) return 0;
+  const cd = node.data.cd ?? 0.61;
+  const area = node.data.area ?? 10;
+  return cd * area * (getOpening(node) / 100) * Math.sqrt(2 * GRAVITY * dh);
+};
+
+// Free overflow weir: Q = (2/3)·Cd·b·√(2g)·H^1.5, scaled by the gate opening
+export const getGateFlow = (node: CanvasNode, dh: number) => {
+  if (dh <= 0) return 0;
+  const cd = node.data.cd ?? 0.62;
+  const width = node.data.width ?? 8;
+  return (2 / 3) * cd * width * Math.sqrt(2 * GRAVITY) * Math.pow(dh, 1.5) * (getOpening(node) / 100);
+};
+
+// Guide vanes admit up to the rated flow; no flow without positive head
+export const getTurbineFlow = (node: CanvasNode, dh: number) => {
+  if (dh <= 0) return 0;
+  return (node.data.ratedFlow ?? 100) * (getOpening(node) / 100);
+};
+
+// P = η·ρ·g·Q·H, limited by installed capacity (MW)
+export const getTurbinePower = (node: CanvasNode, q: number, dh: number) => {
+  const efficiency = (node.data.efficiency ?? 90) / 100;
+  const power = efficiency * WATER_DENSITY * GRAVITY * q * Math.max(0, dh) / 1e6;
+  return Math.min(node.data.capacity ?? 100, power);
+};
+
+const getDeviceFlow = (node: CanvasNode, dh: number) => {
+  switch (node.type) {
+    case 'VALVE': return getValveFlow(node, dh);
+    case 'GATE': return getGateFlow(node, dh);
+    case 'TURBINE': return getTurbineFlow(node, dh);
+    default: return Infinity;
+  }
+};
+
+// Split `amount` over edges: each edge first gets its request, any surplus is shared
+// evenly by the edges that lead somewhere able to accept it.
+const distribute = (amount: number, out: CanvasEdge[], request: Record<string, number>, capacity: Record<string, number>) => {
+  const result: Record<string, number> = {};
+  if (!out.length) return result;
+  const totalReq = out.reduce((sum, e) => sum + request[e.id], 0);
+  const served = Math.min(amount, totalReq);
+  out.forEach(e => { result[e.id] = totalReq > 0 ? served * request[e.id] / totalReq : 0; });
+  const surplus = amount - served;
+  if (surplus > 1e-9) {
+    const open = out.filter(e => capacity[e.target] > 0);
+    const targets = open.length ? open : out;
+    targets.forEach(e => { result[e.id] += surplus / targets.length; });
+  }
+  return result;
+};
+
+/**
+ * Route flow through the network for one time step. Pumps push their share of the controller
+ * command, sources supply whatever is drawn from them, reservoirs store the imbalance and
+ * demands draw their share of consumption from upstream.
+ */
+export const solveHydraulics = (inputs: HydraulicInputs): HydraulicResult => {
+  const { nodes, topology, pumpCommand, demand, faults, dt } = inputs;
+  const { order, upstream, downstream } = topology;
+  const byId: Record<string, CanvasNode> = {};
+  nodes.forEach(n => { byId[n.id] = n; });
+
+  // Pump command is shared in proportion to each station's installed capacity; only running units deliver it
+  const pumpCaps: Record<string, number> = {};
+  const runningCaps: Record<string, number> = {};
+  const unitFlow = (id: string, q: number) => q / Math.max(1, inputs.pumpUnits?.[id] ?? getPumpSpec(byId[id]).units);
+  order.filter(id => byId[id].type === 'PUMP').forEach(id => {
+    pumpCaps[id] = getPumpCapacity(byId[id], faults);
+    runningCaps[id] = (inputs.pumpUnits?.[id] ?? getPumpSpec(byId[id]).units) * getUnitCapacity(byId[id], faults);
+  });
+  const totalPumpCap = Object.values(pumpCaps).reduce((a, b) => a + b, 0);
+  const pumpShare = (id: string) => totalPumpCap > 0 ? pumpCommand * pumpCaps[id] / totalPumpCap : 0;
+  const demandNodes = order.filter(id => byId[id].type === 'DEMAND');
+  const demandShare = demandNodes.length ? demand / demandNodes.length : 0;
+
+  // Heads: forward for the head available at each inlet, backward for the head to discharge against
+  const headIn: Record<string, number> = {};
+  const headOut: Record<string, number> = {};
+  const pumped = new Set<string>();
+  order.forEach(id => {
+    const node = byId[id];
+    const up = upstream[id].filter(e => e.source in headOut);
+    headIn[id] = up.length ? Math.max(...up.map(e => headOut[e.source])) : 0;
+    switch (node.type) {
+      case 'SOURCE': headOut[id] = node.data.head ?? SOURCE_HEAD; break;
+      case 'RESERVOIR': headOut[id] = inputs.levels[id] ?? INITIAL_LEVEL; break;
+      case 'PUMP': headOut[id] = headIn[id] + getPumpHead(node, unitFlow(id, Math.min(pumpShare(id), runningCaps[id]))); pumped.add(id); break;
+      // Friction at the flow the pipe was last carrying
+      case 'PIPE':
+        headOut[id] = headIn[id] - getFrictionLoss(node, getLastInflow(node, inputs.pipeBuffers[id]));
+        if (up.some(e => pumped.has(e.source))) pumped.add(id);
+        break;
+      default:
+        headOut[id] = headIn[id];
+        if (node.type !== 'DEMAND' && up.some(e => pumped.has(e.source))) pumped.add(id);
+    }
+  });
+  const headDown: Record<string, number> = {};
+  [...order].reverse().forEach(id => {
+    const node = byId[id];
+    switch (node.type) {
+      case 'RESERVOIR': headDown[id] = inputs.levels[id] ?? INITIAL_LEVEL; break;
+      case 'DEMAND': headDown[id] = node.data.head ?? 0; break;
+      case 'PUMP': headDown[id] = 0; break;
+      default: {
+        const down = downstream[id].filter(e => e.target in headDown);
+        headDown[id] = down.length ? Math.min(...down.map(e => headDown[e.target])) : Infinity;
+      }
+    }
+  });
+  const headDiff = (id: string) => headIn[id] - headDown[id];
+
+  // Backward pass: how much each node could pass on (capacity) and wants to draw (request)
+  const capacity: Record<string, number> = {};
+  const request: Record<string, number> = {};
+  const edgeRequest: Record<string, number> = {};
+  const deviceCap: Record<string, number> = {}; // Through the device itself, excluding any bypass
+  const feedsStorage = new Set<string>();
+  [...order].reverse().forEach(id => {
+    const node = byId[id];
+    const out = downstream[id].filter(e => e.target in capacity);
+    const main = out.filter(isMainOutlet);
+    const side = out.filter(e => !isMainOutlet(e));
+    const downstreamCap = main.reduce((sum, e) => sum + capacity[e.target], 0);
+    const downstreamReq = main.reduce((sum, e) => sum + edgeRequest[e.id], 0);
+    const sideCap = side.reduce((sum, e) => sum + capacity[e.target], 0);
+    const sideReq = side.reduce((sum, e) => sum + edgeRequest[e.id], 0);
+
+    switch (node.type) {
+      case 'RESERVOIR':
+        capacity[id] = Infinity; request[id] = 0; break;
+      case 'DEMAND':
+        capacity[id] = Infinity; request[id] = demandShare; break;
+      case 'PUMP': {
+        capacity[id] = Math.min(runningCaps[id], downstreamCap);
+        request[id] = Math.max(0, Math.min(pumpShare(id), capacity[id]));
+        break;
+      }
+      case 'VALVE':
+      case 'GATE':
+      case 'TURBINE':
+        deviceCap[id] = Math.min(getDeviceFlow(node, headDiff(id)), downstreamCap);
+        // Gravity-fed devices discharging into storage run at full capacity; a bypass passes its own request on top
+        request[id] = (!pumped.has(id) && main.some(e => feedsStorage.has(e.target))
+          ? deviceCap[id]
+          : Math.min(downstreamReq, deviceCap[id])) + sideReq;
+        capacity[id] = deviceCap[id] + sideCap;
+        break;
+      default:
+        capacity[id] = downstreamCap;
+        request[id] = Math.min(downstreamReq, capacity[id]);
+    }
+    if (node.type === 'RESERVOIR' || (!SINK_TYPES.includes(node.type) && out.some(e => feedsStorage.has(e.target)))) {
+      feedsStorage.add(id);
+    }
+    upstream[id].forEach(e => { edgeRequest[e.id] = request[id] / upstream[id].length; });
+  });
+
+  // Forward pass: propagate actual flows in topological order
+  const flows: Record<string, NodeFlow> = {};
+  const edgeFlows: Record<string, number> = {};
+  const levels = { ...inputs.levels };
+  const pipeBuffers = { ...inputs.pipeBuffers };
+  let pumpFlow = 0;
+  let power = 0;
+  let pumpPower = 0;
+
+  order.forEach(id => {
+    const node = byId[id];
+    const out = downstream[id].filter(e => e.target in capacity);
+    const main = out.filter(isMainOutlet);
+    const side = out.filter(e => !isMainOutlet(e));
+    let sideFlow = 0;
+    const inflow = upstream[id].reduce((sum, e) => sum + (edgeFlows[e.id] || 0), 0);
+    let outflow = inflow;
+    const flow: NodeFlow = { inflow, outflow };
+
+    switch (node.type) {
+      case 'SOURCE':
+        outflow = out.reduce((sum, e) => sum + edgeRequest[e.id], 0);
+        break;
+      case 'PUMP': {
+        pumpFlow += outflow;
+        const units = inputs.pumpUnits?.[id] ?? getPumpSpec(node).units;
+        flow.unitsRunning = units;
+        flow.powerUse = units > 0 ? units * getPumpPower(node, unitFlow(id, outflow)) : 0;
+        pumpPower += flow.powerUse;
+        break;
+      }
+      case 'PIPE': {
+        const routed = routePipe(node, pipeBuffers[id], inflow, dt);
+        pipeBuffers[id] = routed.state;
+        outflow = routed.outflow;
+        const headLoss = getFrictionLoss(node, inflow);
+        if (headLoss > 0) flow.headLoss = headLoss;
+        if (node.data.leak) {
+          flow.leak = outflow * Math.min(100, node.data.leak) / 100;
+          outflow -= flow.leak;
+        }
+        break;
+      }
+      case 'RESERVOIR': {
+        const area = node.data.area || 100;
+        const level = levels[id] ?? INITIAL_LEVEL;
+        const wanted = main.reduce((sum, e) => sum + edgeRequest[e.id], 0);
+        // The outlet sits at the minimum level: below it the reservoir runs dry for its consumers
+        const minLevel = node.data.minLevel ?? 0;
+        outflow = Math.min(wanted, inflow + (Math.max(0, level - minLevel) * area) / dt);
+        // Leak coefficients from the global fault and node faults: loss = c/10 · √level
+        const leakCoeff = (node.data.leak ?? 0) + (faults.leakage.active && id === topology.controlledReservoirId ? faults.leakage.value : 0);
+        const leak = Math.min((leakCoeff / 10) * Math.sqrt(Math.max(0, level)), (level * area) / dt + inflow - outflow);
+        if (leak > 0) flow.leak = leak;
+        levels[id] = Math.max(0, level + ((inflow - outflow - leak) * dt) / area);
+        // The spillway passes water above its crest up to its capacity, through the overflow port
+        // when one is connected; whatever still rises past the wall is lost over the top
+        const crest = node.data.overflowLevel ?? OVERFLOW_LEVEL;
+        if (levels[id] > crest) {
+          const spill = Math.min(node.data.spillwayCapacity ?? SPILLWAY_CAPACITY, (levels[id] - crest) * area / dt);
+          flow.spill = spill;
+          levels[id] -= spill * dt / area;
+          if (side.length) sideFlow = spill;
+        }
+        const maxLevel = node.data.maxLevel ?? MAX_LEVEL;
+        if (levels[id] > maxLevel) {
+          flow.overtop = (levels[id] - maxLevel) * area / dt;
+          levels[id] = maxLevel;
+        }
+        flow.level = levels[id];
+        break;
+      }
+      case 'DEMAND':
+        flow.unmet = Math.max(0, demandShare - inflow);
+        outflow = 0;
+        break;
+    }
+    if (HEAD_DRIVEN_TYPES.includes(node.type)) {
+      // What the device cannot pass goes round it when a bypass is connected
+      if (side.length) {
+        sideFlow = Math.max(0, outflow - deviceCap[id]);
+        outflow -= sideFlow;
+        if (sideFlow > 0) flow.bypass = sideFlow;
+      }
+      flow.opening = getOpening(node);
+      flow.head = Math.max(0, headDiff(id));
+      if (node.type === 'TURBINE') {
+        flow.power = getTurbinePower(node, outflow, flow.head);
+        power += flow.power;
+      }
+    }
+
+    flow.outflow = outflow + sideFlow;
+    flows[id] = flow;
+    if (side.length) {
+      Object.assign(edgeFlows, distribute(outflow, main, edgeRequest, capacity), distribute(sideFlow, side, edgeRequest, capacity));
+    } else {
+      Object.assign(edgeFlows, distribute(outflow, out, edgeRequest, capacity));
+    }
+  });
+
+  return { flows, edgeFlows, levels, pipeBuffers, pumpFlow, power, pumpPower };
+};
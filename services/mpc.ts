@@ -0,0 +1,116 @@
+import { MpcConfig, MpcMemory, PredictionPoint } from '../types';
+import { PlantModel, getDelaySteps } from './controllers';
+
+const CONSTRAINT_WEIGHT = 1000; // Penalty per m² outside the soft level limits
+const MAX_SWEEPS = 60;
+const TOLERANCE = 1e-3;         // m3/s
+
+export const createMpcMemory = (): MpcMemory => ({ plan: [], prediction: [], solvedAt: 0 });
+
+export interface MpcProblem {
+  time: number;             // Current simulation time (s)
+  level: number;            // Measured tank level (m)
+  lastOut: number;          // Command currently applied (m3/s)
+  outputHistory: number[];  // Applied commands at the engine step, newest last
+  dt: number;               // Engine step (s)
+  model: PlantModel;
+  flowLimit: number;        // Pump capacity available right now (m3/s)
+  demandAt: (t: number) => number;
+  setpointAt: (t: number) => number;
+  config: MpcConfig;
+  warmStart: number[];
+}
+
+/**
+ * Receding-horizon MPC for the delayed tank. The level over the horizon is affine in the future
+ * moves (y = c + G·u): commands already in the pipe and the demand preview go into c, moves that
+ * arrive within the horizon into G. The quadratic cost with soft level limits is minimised over the
+ * pump flow box by coordinate descent, which is exact per coordinate and cheap for small Nc.
+ */
+export const solveMpc = (problem: MpcProblem): MpcMemory => {
+  const { time, level, lastOut, outputHistory, dt, model, config } = problem;
+  const np = Math.max(1, Math.round(config.predictionHorizon));
+  const nc = Math.max(1, Math.min(np, Math.round(config.controlHorizon)));
+  const ts = Math.max(dt, config.sampleTime);
+  const subSteps = Math.max(1, Math.round(ts / dt));
+  const lag = getDelaySteps(model.delay, dt);
+  const uMin = Math.max(0, config.flowMin);
+  const uMax = Math.max(uMin, Math.min(config.flowMax, problem.flowLimit));
+
+  // Prediction matrices over Np samples
+  const c: number[] = [];
+  const G: number[][] = [];
+  const demand: number[] = [];
+  const arrivalKnown: number[] = [];
+  const reference: number[] = [];
+  let known = level;
+  for (let j = 0; j < np; j++) {
+    const row = new Array(nc).fill(0);
+    let arrived = 0;
+    for (let s = 0; s < subSteps; s++) {
+      // Engine step at which the command reaching the tank in this sub-step was issued
+      const step = j * subSteps + s - lag;
+      if (step < 0) {
+        const idx = outputHistory.length + step;
+        arrived += idx >= 0 ? outputHistory[idx] : 0;
+      } else {
+        row[Math.min(nc - 1, Math.floor(step / subSteps))] += dt / model.area;
+      }
+    }
+    const tMid = time + (j + 0.5) * ts;
+    demand.push(problem.demandAt(tMid));
+    arrivalKnown.push(arrived / subSteps);
+    known += (arrived * dt - demand[j] * ts) / model.area;
+    c.push(known);
+    G.push(j > 0 ? row.map((v, i) => v + G[j - 1][i]) : row);
+    reference.push(problem.setpointAt(time + (j + 1) * ts));
+  }
+
+  // Start from the previous plan shifted by one sample
+  const u = Array.from({ length: nc }, (_, i) => {
+    const guess = problem.warmStart[i + 1] ?? problem.warmStart[problem.warmStart.length - 1] ?? lastOut;
+    return Math.max(uMin, Math.min(uMax, guess));
+  });
+  const y = c.map((cj, j) => G[j].reduce((sum, g, i) => sum + g * u[i], cj));
+
+  for (let sweep = 0; sweep < MAX_SWEEPS; sweep++) {
+    let maxChange = 0;
+    for (let i = 0; i < nc; i++) {
+      let grad = 0;
+      let hess = 0;
+      for (let j = 0; j < np; j++) {
+        const g = G[j][i];
+        if (g === 0) continue;
+        let gy = 2 * config.levelWeight * (y[j] - reference[j]);
+        let hy = 2 * config.levelWeight;
+        if (y[j] > config.levelMax) { gy += 2 * CONSTRAINT_WEIGHT * (y[j] - config.levelMax); hy += 2 * CONSTRAINT_WEIGHT; }
+        if (y[j] < config.levelMin) { gy += 2 * CONSTRAINT_WEIGHT * (y[j] - config.levelMin); hy += 2 * CONSTRAINT_WEIGHT; }
+        grad += gy * g;
+        hess += hy * g * g;
+      }
+      const prev = i > 0 ? u[i - 1] : lastOut;
+      grad += 2 * config.moveWeight * (u[i] - prev);
+      hess += 2 * config.moveWeight;
+      if (i + 1 < nc) {
+        grad -= 2 * config.moveWeight * (u[i + 1] - u[i]);
+        hess += 2 * config.moveWeight;
+      }
+      if (hess <= 0) continue;
+      const next = Math.max(uMin, Math.min(uMax, u[i] - grad / hess));
+      const change = next - u[i];
+      if (change === 0) continue;
+      for (let j = 0; j < np; j++) y[j] += G[j][i] * change;
+      u[i] = next;
+      maxChange = Math.max(maxChange, Math.abs(change));
+    }
+    if (maxChange < TOLERANCE) break;
+  }
+
+  const prediction: PredictionPoint[] = y.map((yj, j) => ({
+    t: time + (j + 1) * ts,
+    level: yj,
+    flowIn: arrivalKnown[j] + G[j].reduce((sum, g, i) => sum + (g - (j > 0 ? G[j - 1][i] : 0)) * u[i], 0) * model.area / ts,
+    flowOut: demand[j]
+  }));
+  return { plan: u, prediction, solvedAt: time };
+};
@@ -0,0 +1,55 @@
+import { describe, expect, it } from 'vitest';
+import { CanvasNode, PipeRouting } from '../types';
+import { routePipe } from './pipeHydraulics';
+
+const DT = 0.1;
+
+const pipe = (routing: PipeRouting, data: any = {}): CanvasNode => ({ id: 'p', type: 'PIPE', x: 0, y: 0, label: 'p', data: { routing, ...data } });
+
+// Route a step of `flow` starting at t = 10 s; returns the outflow per step and the longest state
+const routeStep = (node: CanvasNode, seconds: number, flow = 5) => {
+  let state: number[] = [];
+  let longest = 0;
+  const outflows: number[] = [];
+  for (let i = 0; i < Math.round(seconds / DT); i++) {
+    const routed = routePipe(node, state, i * DT >= 10 ? flow : 0, DT);
+    state = routed.state;
+    longest = Math.max(longest, state.length);
+    outflows.push(routed.outflow);
+  }
+  return { outflows, longest };
+};
+
+const arrival = (outflows: number[], flow = 5) => outflows.findIndex(q => q > flow / 2) * DT;
+
+describe('routePipe', () => {
+  it('delays a bare delay pipe by its delay', () => {
+    const { outflows } = routeStep(pipe('DELAY', { delay: 20 }), 60);
+    expect(arrival(outflows)).toBeCloseTo(30, 0);
+    expect(outflows[outflows.length - 1]).toBe(5);
+  });
+
+  it('keeps long delays in a bounded state', () => {
+    const { outflows, longest } = routeStep(pipe('DELAY', { delay: 1000 }), 1100);
+    expect(Math.abs(arrival(outflows) - 1010)).toBeLessThan(1);
+    expect(longest).toBeLessThanOrEqual(2003);
+  });
+
+  it.each([[150, 1000], [1000, 150], [1000, 3000]])('restarts at steady flow when a delay edit moves from %ss to %ss', (from, to) => {
+    let state: number[] = [];
+    for (let i = 0; i < from / DT + 10; i++) state = routePipe(pipe('DELAY', { delay: from }), state, 1.5, DT).state;
+    const outflows: number[] = [];
+    for (let i = 0; i < 100; i++) {
+      const routed = routePipe(pipe('DELAY', { delay: to }), state, 1.5, DT);
+      state = routed.state;
+      outflows.push(routed.outflow);
+    }
+    outflows.forEach(q => expect(q).toBeCloseTo(1.5, 9));
+  });
+
+  it.each(['PLUG', 'MUSKINGUM', 'KINEMATIC'] as PipeRouting[])('passes a steady flow through %s routing', routing => {
+    const { outflows } = routeStep(pipe(routing, { length: 500 }), 600);
+    expect(outflows[0]).toBe(0);
+    expect(outflows[outflows.length - 1]).toBeCloseTo(5, 2);
+  });
+});
@@ -0,0 +1,152 @@
+import { CanvasNode, PipeRouting } from '../types';
+
+export const DEFAULT_PIPE_DELAY = 5.0; // s, pipes modelled as a bare delay
+export const PIPE_DEFAULTS = { length: 1000, diameter: 3, roughness: 0.014, slope: 0.001, muskingumX: 0.2 };
+const MIN_SLOPE = 1e-5;
+const MAX_REACHES = 2000; // Cap on Muskingum sub-reaches / kinematic cells / delay slots per pipe
+const CFL_MARGIN = 1.5;    // Kinematic cells are sized for celerities up to this multiple of the reference
+
+export const PIPE_ROUTINGS: { value: PipeRouting; label: string }[] = [
+  { value: 'DELAY', label: '纯滞后' },
+  { value: 'PLUG', label: '管道 (几何推流)' },
+  { value: 'MUSKINGUM', label: '明渠 Muskingum' },
+  { value: 'KINEMATIC', label: '明渠 运动波' }
+];
+
+export const getPipeRouting = (node: CanvasNode): PipeRouting => node.data.routing ?? 'DELAY';
+
+// Geometry with defaults filled in; the conduit is a full circular pipe of diameter D
+export const getPipeGeometry = (node: CanvasNode) => {
+  const length = node.data.length ?? PIPE_DEFAULTS.length;
+  const diameter = node.data.diameter ?? PIPE_DEFAULTS.diameter;
+  const roughness = node.data.roughness ?? PIPE_DEFAULTS.roughness;
+  const slope = Math.max(MIN_SLOPE, node.data.slope ?? PIPE_DEFAULTS.slope);
+  return { length, diameter, roughness, slope, area: Math.PI * diameter * diameter / 4, radius: diameter / 4 };
+};
+
+// Manning velocity of the full section at bed slope: v = (1/n)·R^(2/3)·√S
+const getFullVelocity = (node: CanvasNode) => {
+  const g = getPipeGeometry(node);
+  return Math.pow(g.radius, 2 / 3) * Math.sqrt(g.slope) / g.roughness;
+};
+
+/**
+ * Transport delay of a pipe (s). Bare-delay pipes use their `delay`; geometric pipes take the
+ * travel time of a flow change, L / c, with the kinematic celerity c = 5/3·v of the full section.
+ */
+export const getPipeDelay = (node: CanvasNode) => {
+  if (getPipeRouting(node) === 'DELAY') return node.data.delay || DEFAULT_PIPE_DELAY;
+  return getPipeGeometry(node).length / (5 / 3 * getFullVelocity(node));
+};
+
+// Manning friction loss over the pipe at flow q: h_f = L·(n·v)² / R^(4/3)
+export const getFrictionLoss = (node: CanvasNode, q: number) => {
+  if (getPipeRouting(node) === 'DELAY') return 0;
+  const g = getPipeGeometry(node);
+  const v = q / g.area;
+  return g.length * Math.pow(g.roughness * v, 2) / Math.pow(g.radius, 4 / 3);
+};
+
+// --- OPEN CHANNEL SECTION ---
+// Kinematic routing treats the conduit as a rectangular channel of width D
+const getChannelFlow = (area: number, width: number, roughness: number, slope: number) => {
+  if (area <= 0) return 0;
+  const radius = area / (width + 2 * area / width);
+  return area * Math.pow(radius, 2 / 3) * Math.sqrt(slope) / roughness;
+};
+
+// Wetted area carrying q at normal depth, by bisection on the monotone Q(A)
+const getChannelArea = (q: number, width: number, roughness: number, slope: number) => {
+  if (q <= 0) return 0;
+  let lo = 0;
+  let hi = width * width;
+  while (getChannelFlow(hi, width, roughness, slope) < q) hi *= 2;
+  for (let i = 0; i < 50; i++) {
+    const mid = (lo + hi) / 2;
+    if (getChannelFlow(mid, width, roughness, slope) < q) lo = mid; else hi = mid;
+  }
+  return (lo + hi) / 2;
+};
+
+const getReachCount = (node: CanvasNode, dt: number) => {
+  const g = getPipeGeometry(node);
+  if (getPipeRouting(node) === 'MUSKINGUM') {
+    // Each sub-reach needs 2·K·X ≤ dt to keep the coefficients non-negative
+    const x = node.data.muskingumX ?? PIPE_DEFAULTS.muskingumX;
+    return Math.max(1, Math.min(MAX_REACHES, Math.ceil(2 * getPipeDelay(node) * x / dt)));
+  }
+  // Courant condition c·dt ≤ dx at the celerity of a channel running one width deep
+  const w = g.diameter;
+  const celerity = 5 / 3 * getChannelFlow(w * w, w, g.roughness, g.slope) / (w * w);
+  return Math.max(1, Math.min(MAX_REACHES, Math.floor(g.length / (CFL_MARGIN * celerity * dt))));
+};
+
+/**
+ * Transport delay of `steps` steps held in at most MAX_REACHES slots, each averaging the inflow of
+ * `stride` consecutive steps. State: [−stride, steps in the newest slot, slot averages, newest last].
+ * Flows are never negative, so the leading −stride tells this layout from a buffer of inflows.
+ */
+const routeResampled = (state: number[], inflow: number, steps: number) => {
+  const stride = Math.ceil(steps / MAX_REACHES);
+  const slots = Math.round(steps / stride);
+  const prev = state[0] === -stride ? state : [-stride, stride, ...new Array(state.length ? slots : 0).fill(inflow)];
+  const filled = prev[1] < stride ? prev[1] : 0;
+  const buffer = prev.slice(Math.max(2, prev.length - slots - (filled ? 1 : 0)));
+  if (filled) buffer[buffer.length - 1] = (buffer[buffer.length - 1] * filled + inflow) / (filled + 1);
+  else buffer.push(inflow);
+  return { outflow: buffer.length > slots ? buffer[buffer.length - 1 - slots] : 0, state: [-stride, filled + 1, ...buffer] };
+};
+
+/**
+ * Advance the flow through one pipe by a step and return its outflow with the new routing state.
+ * State layouts by routing mode:
+ *   DELAY / PLUG  recent inflows, newest last, read back after the transport delay; past
+ *                 MAX_REACHES steps see routeResampled
+ *   MUSKINGUM     [last inflow, outflow of each sub-reach]
+ *   KINEMATIC     [last inflow, wetted area of each cell]
+ * A pipe starts empty; a state that no longer fits the parameters is restarted at steady flow.
+ */
+export const routePipe = (node: CanvasNode, state: number[] = [], inflow: number, dt: number) => {
+  const routing = getPipeRouting(node);
+  if (routing === 'DELAY' || routing === 'PLUG') {
+    const idx = Math.max(1, Math.floor(getPipeDelay(node) / dt));
+    if (idx > MAX_REACHES) return routeResampled(state, inflow, idx);
+    const prev = state[0] < 0 ? new Array(idx - 1).fill(inflow) : state;
+    const buffer = [...prev, inflow].slice(-idx);
+    return { outflow: buffer.length >= idx ? buffer[buffer.length - idx] : 0, state: buffer };
+  }
+
+  const n = getReachCount(node, dt);
+  const g = getPipeGeometry(node);
+  if (routing === 'MUSKINGUM') {
+    const x = node.data.muskingumX ?? PIPE_DEFAULTS.muskingumX;
+    const k = getPipeDelay(node) / n;
+    const prev = state.length === n + 1 ? state : new Array(n + 1).fill(state.length ? inflow : 0);
+    const denom = 2 * k * (1 - x) + dt;
+    const c0 = (dt - 2 * k * x) / denom;
+    const c1 = (dt + 2 * k * x) / denom;
+    const c2 = (2 * k * (1 - x) - dt) / denom;
+    const next = [inflow];
+    for (let i = 1; i <= n; i++) next.push(Math.max(0, c0 * next[i - 1] + c1 * prev[i - 1] + c2 * prev[i]));
+    return { outflow: next[n], state: next };
+  }
+
+  // Kinematic wave: explicit upwind continuity on the wetted area, Q from Manning at normal depth
+  const dx = g.length / n;
+  const flowOf = (a: number) => getChannelFlow(a, g.diameter, g.roughness, g.slope);
+  const steady = state.length ? getChannelArea(inflow, g.diameter, g.roughness, g.slope) : 0;
+  const prev = state.length === n + 1 ? state : [inflow, ...new Array(n).fill(steady)];
+  const next = [inflow];
+  for (let i = 1; i <= n; i++) {
+    const upstreamQ = i === 1 ? inflow : flowOf(prev[i - 1]);
+    next.push(Math.max(0, prev[i] + dt / dx * (upstreamQ - flowOf(prev[i]))));
+  }
+  return { outflow: flowOf(next[n]), state: next };
+};
+
+// Best estimate of the flow entering a pipe before this step is solved
+export const getLastInflow = (node: CanvasNode, state: number[] = []) => {
+  const routing = getPipeRouting(node);
+  if (routing === 'DELAY' || routing === 'PLUG') return state[state.length - 1] ?? 0;
+  return state[0] ?? 0;
+};
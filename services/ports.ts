@@ -0,0 +1,29 @@
+import { CanvasEdge, NodeType, PortName, PortSpec } from '../types';
+
+const INLET: PortSpec = { name: 'inlet', direction: 'in', side: 'left', label: '进水口' };
+const OUTLET: PortSpec = { name: 'outlet', direction: 'out', side: 'right', label: '出水口' };
+const BYPASS: PortSpec = { name: 'bypass', direction: 'out', side: 'top', label: '旁通' };
+
+// Ports each node type exposes. Overflow and bypass are secondary outlets the solver
+// only feeds with what the main outlet cannot take.
+export const NODE_PORTS: Record<NodeType, PortSpec[]> = {
+  SOURCE: [OUTLET],
+  PUMP: [INLET, OUTLET],
+  PIPE: [INLET, OUTLET],
+  RESERVOIR: [INLET, OUTLET, { name: 'overflow', direction: 'out', side: 'top', label: '溢流口' }],
+  DEMAND: [INLET],
+  VALVE: [INLET, OUTLET, BYPASS],
+  GATE: [INLET, OUTLET, BYPASS],
+  TURBINE: [INLET, OUTLET, BYPASS]
+};
+
+export const PORT_NAMES: PortName[] = ['inlet', 'outlet', 'overflow', 'bypass'];
+
+export const getPort = (type: NodeType, name: PortName) => NODE_PORTS[type].find(p => p.name === name);
+
+// Edges saved before ports existed connect outlet → inlet
+export const getSourcePort = (edge: Pick<CanvasEdge, 'sourcePort'>): PortName => edge.sourcePort ?? 'outlet';
+export const getTargetPort = (edge: Pick<CanvasEdge, 'targetPort'>): PortName => edge.targetPort ?? 'inlet';
+
+// Edges leaving through the main outlet rather than an overflow or bypass
+export const isMainOutlet = (edge: CanvasEdge) => getSourcePort(edge) === 'outlet';
@@ -0,0 +1,70 @@
+import { describe, expect, it } from 'vitest';
+import { PROJECT_VERSION, migrateProject, parseProject, serializeProject, validateProject } from './project';
+
+const nodes = [
+  { id: 'n1', type: 'SOURCE', x: 0, y: 0, label: 'S', data: {} },
+  { id: 'n2', type: 'RESERVOIR', x: 100, y: 0, label: 'R', data: { area: 80 } }
+];
+const edges = [{ id: 'e1', source: 'n1', target: 'n2' }];
+const paradigm = {
+  type: 'TRADITIONAL', name: 'PID', description: '', tankArea: 80, algorithm: 'PID',
+  infrastructureCost: '', computeCost: '', resilience: ''
+};
+
+describe('migrateProject', () => {
+  it('upgrades an unversioned file to the current version', () => {
+    const migrated = migrateProject({ nodes, edges, deployedParadigm: paradigm });
+    expect(migrated.version).toBe(PROJECT_VERSION);
+    expect(migrated.paradigm).toEqual(paradigm);
+    expect(migrated.deployedParadigm).toBeUndefined();
+    expect(migrated.timeline).toEqual([]);
+  });
+
+  it('turns v1 plans into one-off timeline events', () => {
+    const plans = [
+      { id: 'a', triggerTime: 30, actionType: 'CHANGE_SETPOINT', payload: 300, description: 'raise' },
+      { id: 'b', triggerTime: 60, actionType: 'CHANGE_DEMAND', payload: { type: 'CONSTANT', base: 80, amplitude: 0, frequency: 0, active: true } }
+    ];
+    const { timeline, plans: left } = migrateProject({ version: 1, nodes, edges, paradigm, plans });
+    expect(left).toBeUndefined();
+    expect(timeline).toEqual([
+      { id: 'a', time: 30, label: 'raise', action: { type: 'SETPOINT', pattern: { type: 'CONSTANT', base: 300, amplitude: 0, frequency: 0, active: true } } },
+      { id: 'b', time: 60, label: '', action: { type: 'DEMAND', pattern: plans[1].payload } }
+    ]);
+  });
+
+  it('rejects files from a newer version', () => {
+    expect(() => migrateProject({ version: PROJECT_VERSION + 1 })).toThrow(/版本/);
+  });
+});
+
+describe('validateProject', () => {
+  it('fills sections missing from old files with defaults and round-trips', () => {
+    const project = validateProject({ nodes, edges, deployedParadigm: paradigm });
+    expect(project.nodeFaults).toEqual([]);
+    const { version, savedAt, ...rest } = project;
+    const again = parseProject(serializeProject(rest));
+    expect({ ...again, savedAt }).toEqual(project);
+  });
+
+  it('rejects edges to missing nodes', () => {
+    expect(() => validateProject({ version: PROJECT_VERSION, nodes, edges: [{ id: 'x', source: 'n1', target: 'nope' }], paradigm })).toThrow(/edges\[0\]/);
+  });
+
+  it.each([
+    ['NaN gains', { tuning: { PID: { kp: NaN } } }, /tuning\.PID\.kp/],
+    ['gains out of range', { tuning: { SMITH: { ki: -1 } } }, /tuning\.SMITH\.ki/],
+    ['an inverted MPC level band', { tuning: { MPC: { levelMin: 320, levelMax: 300 } } }, /tuning\.MPC\.levelMin/],
+    ['a non-numeric mismatch', { mismatch: { areaError: '10' } }, /mismatch\.areaError/],
+    ['an unsorted profile', { demandPattern: { type: 'CSV_PROFILE', base: 0, amplitude: 0, frequency: 0, profile: [{ t: 10, value: 1 }, { t: 0, value: 2 }] } }, /profile\[1\]/],
+    ['a negative profile time', { demandPattern: { type: 'CSV_PROFILE', base: 0, amplitude: 0, frequency: 0, profile: [{ t: -5, value: 1 }, { t: 0, value: 2 }] } }, /profile\[0\]/],
+    ['a fault recovering before onset', { nodeFaults: [{ id: 'f', nodeId: 'n2', kind: 'LEAK', value: 10, onset: 50, recovery: 20 }] }, /nodeFaults\[0\]\.recovery/]
+  ])('rejects %s', (_, patch, path) => {
+    expect(() => validateProject({ version: PROJECT_VERSION, nodes, edges, paradigm, ...patch })).toThrow(path);
+  });
+
+  it('keeps timeline events aimed at missing nodes', () => {
+    const timeline = [{ id: 't', time: 5, label: '', action: { type: 'OPENING', nodeId: 'gone', open: 20 } }];
+    expect(validateProject({ version: PROJECT_VERSION, nodes, edges, paradigm, timeline }).timeline).toHaveLength(1);
+  });
+});
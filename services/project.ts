@@ -0,0 +1,320 @@
+import {
+  CanvasEdge, CanvasNode, ControlTuning, ControllerGains, CostConfig, DesignParadigm, DisturbanceConfig, DisturbanceType,
+  FaultState, ModelMismatch, MpcConfig, NodeFault, NodeType, ProfilePoint, ProjectFile, ScenarioFile, TimelineAction, TimelineEvent
+} from '../types';
+import { DEFAULT_COST_CONFIG } from './costs';
+import { DEFAULT_CONTROL_TUNING, DEFAULT_MODEL_MISMATCH } from './controllers';
+import { DEFAULT_FAULTS } from './faults';
+import { PORT_NAMES } from './ports';
+import { DEFAULT_DEMAND_PATTERN, DEFAULT_SETPOINT_PATTERN } from './simulationEngine';
+import { DEFAULT_SEED } from '../utils/random';
+
+export const PROJECT_VERSION = 2;
+export const SCENARIO_VERSION = 1;
+const AUTOSAVE_KEY = 'hydrosim.autosave';
+
+const NODE_TYPES: NodeType[] = ['SOURCE', 'PUMP', 'PIPE', 'RESERVOIR', 'DEMAND', 'VALVE', 'GATE', 'TURBINE'];
+const DISTURBANCE_TYPES: DisturbanceType[] = [
+  'CONSTANT', 'STEP', 'RAMP', 'SINE', 'SQUARE', 'TRIANGLE', 'SAWTOOTH', 'PULSE', 'NOISE', 'RANDOM_WALK', 'BURST', 'CSV_PROFILE'
+];
+
+// Upgrade steps keyed by the version they start from.
+// v0: unversioned files keyed by App state names (`deployedParadigm`, no seed or tuning).
+// v1: a `plans` queue of relative-delay pattern changes instead of the timeline.
+const MIGRATIONS: Record<number, (raw: any) => any> = {
+  0: ({ deployedParadigm, ...rest }) => ({ ...rest, paradigm: rest.paradigm ?? deployedParadigm, version: 1 }),
+  1: ({ plans, ...rest }) => ({ ...rest, timeline: Array.isArray(plans) ? plans.map(planToEvent) : [], version: 2 })
+};
+
+// A v1 plan step as a one-off timeline event; setpoint plans could carry a bare number
+const planToEvent = (p: any) => {
+  if (!isObject(p)) return p;
+  const pattern = isNumber(p.payload) ? { type: 'CONSTANT', base: p.payload, amplitude: 0, frequency: 0, active: true } : p.payload;
+  return {
+    id: p.id, time: p.triggerTime, label: typeof p.description === 'string' ? p.description : '',
+    action: { type: p.actionType === 'CHANGE_SETPOINT' ? 'SETPOINT' : 'DEMAND', pattern }
+  };
+};
+
+export const migrateProject = (raw: any) => {
+  let project = raw;
+  let version = typeof raw.version === 'number' ? raw.version : 0;
+  if (version > PROJECT_VERSION) throw new Error(`项目文件版本 v${version} 高于当前支持的 v${PROJECT_VERSION}`);
+  while (version < PROJECT_VERSION) {
+    project = MIGRATIONS[version](project);
+    version = project.version;
+  }
+  return project;
+};
+
+// --- VALIDATION ---
+const isObject = (v: unknown): v is Record<string, any> => typeof v === 'object' && v !== null && !Array.isArray(v);
+const isNumber = (v: unknown): v is number => typeof v === 'number' && Number.isFinite(v);
+
+const fail = (path: string, reason: string): never => { throw new Error(`项目文件无效: ${path} ${reason}`); };
+
+// Ranges the engine stays finite in, checked like the node parameters in validateParams
+type Range = [min: number, max: number];
+const GAIN_RANGES: Record<keyof ControllerGains, Range> = {
+  kp: [0, 1000], ki: [0, 1000], kd: [0, 1000], integralLimit: [0, 1e6], bias: [-5000, 5000]
+};
+const MPC_RANGES: Record<keyof MpcConfig, Range> = {
+  predictionHorizon: [1, 500], controlHorizon: [1, 500], sampleTime: [0.1, 600], levelWeight: [0, 1e6], moveWeight: [0, 1e6],
+  flowMin: [0, 10000], flowMax: [0, 10000], levelMin: [0, 1000], levelMax: [0, 1000]
+};
+const MISMATCH_RANGES: Record<keyof ModelMismatch, Range> = { areaError: [-90, 500], delayError: [-90, 500] };
+const PATTERN_RANGES: Record<'base' | 'amplitude' | 'frequency', Range> = { base: [-1e5, 1e5], amplitude: [-1e5, 1e5], frequency: [0, 10] };
+const FAULT_VALUE_RANGES: Record<NodeFault['kind'], Range> = { LEAK: [0, 1000], PUMP_TRIP: [0, 100], STUCK: [0, 100] };
+
+const checkNumber = (v: unknown, path: string, [min, max]: Range): number => {
+  if (!isNumber(v)) return fail(path, '不是数值');
+  if (v < min || v > max) fail(path, max === Infinity ? `= ${v} 不能小于 ${min}` : `= ${v} 超出范围 ${min}~${max}`);
+  return v;
+};
+
+// A section with every ranged key present, taking defaults for keys an older file lacks
+const checkSection = <T extends object>(value: unknown, path: string, defaults: T, ranges: Record<keyof T, Range>): T => {
+  const merged: T = { ...defaults, ...(isObject(value) ? value : {}) };
+  (Object.keys(ranges) as (keyof T)[]).forEach(k => checkNumber(merged[k], `${path}.${String(k)}`, ranges[k]));
+  return merged;
+};
+
+const checkNode = (n: any, i: number): CanvasNode => {
+  const path = `nodes[${i}]`;
+  if (!isObject(n)) fail(path, '不是对象');
+  if (typeof n.id !== 'string' || !n.id) fail(`${path}.id`, '缺失');
+  if (!NODE_TYPES.includes(n.type)) fail(`${path}.type`, `未知类型 ${n.type}`);
+  if (!isNumber(n.x) || !isNumber(n.y)) fail(path, '坐标无效');
+  return { id: n.id, type: n.type, x: n.x, y: n.y, label: typeof n.label === 'string' ? n.label : n.id, data: isObject(n.data) ? n.data : {} };
+};
+
+const checkEdge = (e: any, i: number, ids: Set<string>): CanvasEdge => {
+  const path = `edges[${i}]`;
+  if (!isObject(e) || typeof e.source !== 'string' || typeof e.target !== 'string') fail(path, '缺少 source/target');
+  if (!ids.has(e.source) || !ids.has(e.target)) fail(path, `引用了不存在的节点 ${e.source} → ${e.target}`);
+  ['sourcePort', 'targetPort'].forEach(k => {
+    if (e[k] !== undefined && !PORT_NAMES.includes(e[k])) fail(`${path}.${k}`, `未知端口 ${e[k]}`);
+  });
+  return { ...e, id: typeof e.id === 'string' ? e.id : `e${i}` };
+};
+
+const checkPattern = (p: any, path: string, fallback: DisturbanceConfig): DisturbanceConfig => {
+  if (p === undefined) return fallback;
+  if (!isObject(p) || !DISTURBANCE_TYPES.includes(p.type)) fail(path, '扰动类型无效');
+  (Object.keys(PATTERN_RANGES) as (keyof typeof PATTERN_RANGES)[]).forEach(k => checkNumber(p[k], `${path}.${k}`, PATTERN_RANGES[k]));
+  if (p.seed !== undefined && !isNumber(p.seed)) fail(`${path}.seed`, '不是数值');
+  const pattern = { ...p, active: p.active !== false } as DisturbanceConfig;
+  if (p.profile !== undefined) pattern.profile = checkProfile(p.profile, `${path}.profile`);
+  return pattern;
+};
+
+// Recorded profiles are replayed by interpolation, so times must be non-negative and ascending
+const checkProfile = (profile: unknown, path: string): ProfilePoint[] => {
+  if (!Array.isArray(profile) || profile.length < 2) return fail(path, '曲线至少需要两个数据点');
+  return profile.map((pt: any, i: number) => {
+    if (!isObject(pt) || !isNumber(pt.t) || !isNumber(pt.value) || pt.t < 0) fail(`${path}[${i}]`, '时间或数值无效');
+    if (i > 0 && pt.t < profile[i - 1].t) fail(`${path}[${i}]`, '时间未按升序排列');
+    return { t: pt.t, value: pt.value };
+  });
+};
+
+const checkParadigm = (p: any): DesignParadigm => {
+  if (!isObject(p)) fail('paradigm', '缺失');
+  if (!['PID', 'SMITH', 'MPC'].includes(p.algorithm)) fail('paradigm.algorithm', `未知算法 ${p.algorithm}`);
+  if (!isNumber(p.tankArea) || p.tankArea <= 0) fail('paradigm.tankArea', '必须为正数');
+  return p as DesignParadigm;
+};
+
+const checkAction = (a: any, path: string): TimelineAction => {
+  if (!isObject(a)) fail(path, '缺失');
+  switch (a.type) {
+    case 'SETPOINT':
+    case 'DEMAND':
+      return { type: a.type, pattern: checkPattern(a.pattern, `${path}.pattern`, a.type === 'DEMAND' ? DEFAULT_DEMAND_PATTERN : DEFAULT_SETPOINT_PATTERN) };
+    case 'FAULT':
+      if (!(a.fault in DEFAULT_FAULTS)) fail(`${path}.fault`, `未知故障 ${a.fault}`);
+      return { type: 'FAULT', fault: a.fault, active: !!a.active, value: isNumber(a.value) ? a.value : 0 };
+    case 'OPENING':
+      if (typeof a.nodeId !== 'string') fail(`${path}.nodeId`, '缺失');
+      if (!isNumber(a.open)) fail(`${path}.open`, '不是数值');
+      return { type: 'OPENING', nodeId: a.nodeId, open: a.open };
+    case 'PARADIGM':
+      return { type: 'PARADIGM', paradigm: checkParadigm(a.paradigm) };
+    case 'PAUSE':
+      return { type: 'PAUSE' };
+    default:
+      return fail(`${path}.type`, `未知动作 ${a.type}`);
+  }
+};
+
+const checkTimelineEvent = (e: any, i: number): TimelineEvent => {
+  const path = `timeline[${i}]`;
+  if (!isObject(e) || !isNumber(e.time) || e.time < 0) fail(path, '触发时间无效');
+  const event: TimelineEvent = {
+    id: typeof e.id === 'string' && e.id ? e.id : `t${i}`,
+    time: e.time,
+    label: typeof e.label === 'string' ? e.label : '',
+    action: checkAction(e.action, `${path}.action`)
+  };
+  if (e.repeat !== undefined) {
+    if (!isObject(e.repeat) || !isNumber(e.repeat.interval) || e.repeat.interval <= 0) fail(`${path}.repeat`, '重复间隔必须为正数');
+    event.repeat = { interval: e.repeat.interval, count: isNumber(e.repeat.count) ? Math.max(0, Math.round(e.repeat.count)) : 0 };
+  }
+  if (e.condition !== undefined) {
+    const c = e.condition;
+    if (!isObject(c) || !['LEVEL', 'ERROR', 'FLOW_IN', 'DEMAND'].includes(c.signal) || (c.op !== '<' && c.op !== '>') || !isNumber(c.value)) {
+      fail(`${path}.condition`, '条件无效');
+    }
+    if (c.nodeId !== undefined && typeof c.nodeId !== 'string') fail(`${path}.condition.nodeId`, '不是节点 id');
+    event.condition = { signal: c.signal, op: c.op, value: c.value, ...(c.nodeId !== undefined ? { nodeId: c.nodeId } : {}) };
+  }
+  return event;
+};
+
+const checkNodeFault = (f: any, i: number, ids: Set<string>): NodeFault => {
+  const path = `nodeFaults[${i}]`;
+  if (!isObject(f) || !ids.has(f.nodeId)) fail(path, '引用了不存在的节点');
+  if (!['LEAK', 'PUMP_TRIP', 'STUCK'].includes(f.kind)) fail(`${path}.kind`, `未知故障 ${f.kind}`);
+  checkNumber(f.value, `${path}.value`, FAULT_VALUE_RANGES[f.kind as NodeFault['kind']]);
+  const onset = checkNumber(f.onset, `${path}.onset`, [0, Infinity]);
+  const recovery = f.recovery === undefined || f.recovery === null ? null : checkNumber(f.recovery, `${path}.recovery`, [onset, Infinity]);
+  return {
+    ...f,
+    rampTime: f.rampTime === undefined ? 0 : checkNumber(f.rampTime, `${path}.rampTime`, [0, Infinity]),
+    profile: ['STEP', 'LINEAR', 'EXP'].includes(f.profile) ? f.profile : 'STEP',
+    recovery
+  } as NodeFault;
+};
+
+// Sections added after a file was written fall back to defaults, key by key
+const mergeFaults = (f: any): FaultState => {
+  const merged = { ...DEFAULT_FAULTS };
+  if (isObject(f)) (Object.keys(DEFAULT_FAULTS) as (keyof FaultState)[]).forEach(k => {
+    if (isObject(f[k])) merged[k] = { active: !!f[k].active, value: isNumber(f[k].value) ? f[k].value : 0 };
+  });
+  return merged;
+};
+
+const mergeTuning = (t: any): ControlTuning => {
+  const tuning = isObject(t) ? t : {};
+  const mpc = checkSection(tuning.MPC, 'tuning.MPC', DEFAULT_CONTROL_TUNING.MPC, MPC_RANGES);
+  if (mpc.flowMin > mpc.flowMax) fail('tuning.MPC.flowMin', '高于流量上限');
+  if (mpc.levelMin >= mpc.levelMax) fail('tuning.MPC.levelMin', '应低于水位上限');
+  return {
+    PID: checkSection(tuning.PID, 'tuning.PID', DEFAULT_CONTROL_TUNING.PID, GAIN_RANGES),
+    SMITH: checkSection(tuning.SMITH, 'tuning.SMITH', DEFAULT_CONTROL_TUNING.SMITH, GAIN_RANGES),
+    MPC: mpc
+  };
+};
+
+const checkCosts = (c: any): CostConfig => {
+  if (c === undefined) return DEFAULT_COST_CONFIG;
+  if (!isObject(c)) fail('costs', '不是对象');
+  const tariff = c.tariff === undefined ? DEFAULT_COST_CONFIG.tariff : c.tariff;
+  if (!Array.isArray(tariff)) fail('costs.tariff', '不是数组');
+  tariff.forEach((p: any, i: number) => {
+    if (!isObject(p) || !isNumber(p.start) || !isNumber(p.end) || !isNumber(p.price)) fail(`costs.tariff[${i}]`, '时段或电价无效');
+  });
+  const merged: CostConfig = {
+    ...DEFAULT_COST_CONFIG,
+    computeRate: { ...DEFAULT_COST_CONFIG.computeRate, ...(isObject(c.computeRate) ? c.computeRate : {}) },
+    tariff: tariff.map((p: any) => ({ name: typeof p.name === 'string' ? p.name : '', start: p.start, end: p.end, price: p.price }))
+  };
+  (['startHour', 'generationPrice', 'spillPenalty', 'unmetPenalty', 'tankUnitCost', 'tankLifetime'] as const).forEach(k => {
+    if (isNumber(c[k])) merged[k] = c[k];
+  });
+  return merged;
+};
+
+/**
+ * Migrate and validate a parsed project. Structural problems throw with the offending path;
+ * optional sections missing from older files are filled with defaults.
+ */
+export const validateProject = (raw: unknown): ProjectFile => {
+  if (!isObject(raw)) fail('', '不是 JSON 对象');
+  const p = migrateProject(raw);
+  if (!Array.isArray(p.nodes)) fail('nodes', '缺失');
+  if (!Array.isArray(p.edges)) fail('edges', '缺失');
+  const nodes: CanvasNode[] = p.nodes.map(checkNode);
+  const ids = new Set(nodes.map(n => n.id));
+  if (ids.size !== nodes.length) fail('nodes', '存在重复 id');
+  return {
+    version: PROJECT_VERSION,
+    name: typeof p.name === 'string' && p.name ? p.name : '未命名项目',
+    savedAt: typeof p.savedAt === 'string' ? p.savedAt : new Date().toISOString(),
+    nodes,
+    edges: p.edges.map((e: any, i: number) => checkEdge(e, i, ids)),
+    paradigm: checkParadigm(p.paradigm),
+    tuning: mergeTuning(p.tuning),
+    mismatch: checkSection(p.mismatch, 'mismatch', DEFAULT_MODEL_MISMATCH, MISMATCH_RANGES),
+    faults: mergeFaults(p.faults),
+    nodeFaults: Array.isArray(p.nodeFaults) ? p.nodeFaults.map((f: any, i: number) => checkNodeFault(f, i, ids)) : [],
+    demandPattern: checkPattern(p.demandPattern, 'demandPattern', DEFAULT_DEMAND_PATTERN),
+    setpointPattern: checkPattern(p.setpointPattern, 'setpointPattern', DEFAULT_SETPOINT_PATTERN),
+    timeline: Array.isArray(p.timeline) ? p.timeline.map(checkTimelineEvent) : [],
+    seed: isNumber(p.seed) ? p.seed : DEFAULT_SEED,
+    costs: checkCosts(p.costs)
+  };
+};
+
+export const serializeProject = (project: Omit<ProjectFile, 'version' | 'savedAt'>) =>
+  JSON.stringify({ version: PROJECT_VERSION, savedAt: new Date().toISOString(), ...project }, null, 2);
+
+export const parseProject = (text: string): ProjectFile => {
+  let raw: unknown;
+  try {
+    raw = JSON.parse(text);
+  } catch {
+    throw new Error('项目文件不是有效的 JSON');
+  }
+  return validateProject(raw);
+};
+
+// --- SCENARIOS ---
+export const serializeScenario = (scenario: Omit<ScenarioFile, 'version' | 'kind' | 'savedAt'>) =>
+  JSON.stringify({ version: SCENARIO_VERSION, kind: 'scenario', savedAt: new Date().toISOString(), ...scenario }, null, 2);
+
+/**
+ * Parse a scenario file. Events may refer to nodes of the canvas they were written against; ones
+ * whose node is missing are kept and skipped by the engine, see getOrphanedEvents.
+ */
+export const parseScenario = (text: string): ScenarioFile => {
+  let raw: any;
+  try {
+    raw = JSON.parse(text);
+  } catch {
+    throw new Error('场景文件不是有效的 JSON');
+  }
+  if (!isObject(raw) || raw.kind !== 'scenario') fail('', '不是场景文件');
+  if (isNumber(raw.version) && raw.version > SCENARIO_VERSION) throw new Error(`场景文件版本 v${raw.version} 高于当前支持的 v${SCENARIO_VERSION}`);
+  if (!Array.isArray(raw.timeline)) fail('timeline', '缺失');
+  return {
+    version: SCENARIO_VERSION,
+    kind: 'scenario',
+    name: typeof raw.name === 'string' && raw.name ? raw.name : '未命名场景',
+    savedAt: typeof raw.savedAt === 'string' ? raw.savedAt : new Date().toISOString(),
+    demandPattern: checkPattern(raw.demandPattern, 'demandPattern', DEFAULT_DEMAND_PATTERN),
+    setpointPattern: checkPattern(raw.setpointPattern, 'setpointPattern', DEFAULT_SETPOINT_PATTERN),
+    timeline: raw.timeline.map(checkTimelineEvent),
+    seed: isNumber(raw.seed) ? raw.seed : DEFAULT_SEED
+  };
+};
+
+// --- AUTOSAVE ---
+export const saveAutosave = (project: Omit<ProjectFile, 'version' | 'savedAt'>) => {
+  try {
+    localStorage.setItem(AUTOSAVE_KEY, serializeProject(project));
+  } catch (e) {
+    console.warn('Autosave failed', e);
+  }
+};
+
+export const loadAutosave = (): ProjectFile | null => {
+  try {
+    const text = localStorage.getItem(AUTOSAVE_KEY);
+    return text ? parseProject(text) : null;
+  } catch (e) {
+    console.warn('Discarding unreadable autosave', e);
+    return null;
+  }
+};
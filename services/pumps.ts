@@ -0,0 +1,132 @@
+import { CanvasNode, EventLogEntry, FaultState, PumpStationState } from '../types';
+
+const GRAVITY = 9.81;
+const WATER_DENSITY = 1000;
+const MOTOR_EFFICIENCY = 0.95;
+const STAGE_UP_LOAD = 0.95;   // Start another unit once the running ones are this loaded
+const STAGE_DOWN_LOAD = 0.8;  // Stop one when the others could carry the command at this load
+const MIN_LOAD = 0.02;        // Below this share of one unit the last unit stops (and above it starts)
+const START_WINDOW = 3600;    // s, window for the start limit
+
+// Per-unit curve data with defaults; `head` is the rated head so older projects keep their boost
+export const PUMP_DEFAULTS = {
+  units: 1,
+  ratedFlow: 250,     // m3/s, end of the curve
+  head: 30,           // m at rated flow
+  shutoffHead: 45,    // m at zero flow
+  bepFlow: 200,       // m3/s, best efficiency point
+  bepEfficiency: 85,  // %
+  minRunTime: 30,     // s
+  maxStarts: 6        // per unit per hour
+};
+
+export const getPumpSpec = (node: CanvasNode) => {
+  const d = node.data;
+  return {
+    units: Math.max(1, Math.round(d.units ?? PUMP_DEFAULTS.units)),
+    ratedFlow: d.ratedFlow ?? PUMP_DEFAULTS.ratedFlow,
+    ratedHead: d.head ?? PUMP_DEFAULTS.head,
+    shutoffHead: d.shutoffHead ?? PUMP_DEFAULTS.shutoffHead,
+    bepFlow: d.bepFlow ?? PUMP_DEFAULTS.bepFlow,
+    bepEfficiency: (d.bepEfficiency ?? PUMP_DEFAULTS.bepEfficiency) / 100,
+    minRunTime: d.minRunTime ?? PUMP_DEFAULTS.minRunTime,
+    maxStarts: d.maxStarts ?? PUMP_DEFAULTS.maxStarts
+  };
+};
+
+// Head–flow curve of one unit: H(Q) = H0 − (H0 − Hr)·(Q/Qr)²
+export const getPumpHead = (node: CanvasNode, q: number) => {
+  const s = getPumpSpec(node);
+  return Math.max(0, s.shutoffHead - (s.shutoffHead - s.ratedHead) * Math.pow(q / s.ratedFlow, 2));
+};
+
+// Efficiency curve of one unit, a parabola through zero flow peaking at the best efficiency point
+export const getPumpEfficiency = (node: CanvasNode, q: number) => {
+  const s = getPumpSpec(node);
+  const x = q / s.bepFlow;
+  return Math.max(0, s.bepEfficiency * x * (2 - x));
+};
+
+/**
+ * Electrical power drawn by one running unit at flow q (MW): ρ·g·Q·H / (η_pump·η_motor).
+ * Q/η is taken in closed form so a unit running against a closed valve still draws shut-off power.
+ */
+export const getPumpPower = (node: CanvasNode, q: number) => {
+  const s = getPumpSpec(node);
+  const flowOverEfficiency = s.bepFlow / (s.bepEfficiency * Math.max(0.1, 2 - q / s.bepFlow));
+  return WATER_DENSITY * GRAVITY * getPumpHead(node, q) * flowOverEfficiency / MOTOR_EFFICIENCY / 1e6;
+};
+
+// Flow one unit can deliver: the end of its curve, derated by node efficiency and the global fault
+export const getUnitCapacity = (node: CanvasNode, faults: FaultState) => {
+  let maxQ = getPumpSpec(node).ratedFlow * ((node.data.efficiency ?? 100) / 100);
+  if (faults.pumpEfficiency.active) maxQ *= (1 - faults.pumpEfficiency.value / 100);
+  return Math.max(0, maxQ);
+};
+
+// --- STAGING ---
+export const createPumpStation = (units: number): PumpStationState => ({
+  running: new Array(units).fill(false),
+  since: new Array(units).fill(-Infinity),
+  starts: Array.from({ length: units }, () => []),
+  lead: 0
+});
+
+// Station state resized to the node's current unit count
+const fitStation = (station: PumpStationState | undefined, units: number): PumpStationState => {
+  if (!station) return createPumpStation(units);
+  if (station.running.length === units) return station;
+  const fresh = createPumpStation(units);
+  return {
+    running: fresh.running.map((_, i) => station.running[i] ?? false),
+    since: fresh.since.map((v, i) => station.since[i] ?? v),
+    starts: fresh.starts.map((v, i) => station.starts[i] ?? v),
+    lead: station.lead % units
+  };
+};
+
+export const countRunning = (station: PumpStationState | undefined) => station ? station.running.filter(Boolean).length : 0;
+
+/**
+ * Lead/lag staging of one station for a flow command at time t. At most one unit starts or stops
+ * per step: units start in rotation from the lead, subject to the hourly start limit, and the most
+ * recently started unit stops first once it has run its minimum time. The lead rotates whenever
+ * the whole station stops, so duty is shared between units.
+ */
+export const stagePumpStation = (
+  station: PumpStationState | undefined, node: CanvasNode, command: number, unitCapacity: number, t: number
+) => {
+  const spec = getPumpSpec(node);
+  const current = fitStation(station, spec.units);
+  const starts = current.starts.map(list => list.filter(s => t - s < START_WINDOW));
+  const running = [...current.running];
+  const since = [...current.since];
+  let lead = current.lead;
+  const events: EventLogEntry[] = [];
+  const on = running.filter(Boolean).length;
+
+  const wantUp = on === 0 ? command > MIN_LOAD * unitCapacity : command > on * unitCapacity * STAGE_UP_LOAD;
+  const wantDown = on === 1 ? command < MIN_LOAD * unitCapacity : on > 1 && command < (on - 1) * unitCapacity * STAGE_DOWN_LOAD;
+
+  if (wantUp && on < spec.units && unitCapacity > 0) {
+    for (let k = 0; k < spec.units; k++) {
+      const i = (lead + k) % spec.units;
+      if (running[i] || starts[i].length >= spec.maxStarts) continue;
+      running[i] = true;
+      since[i] = t;
+      starts[i] = [...starts[i], t];
+      events.push({ t, kind: 'PUMP', nodeId: node.id, message: `${node.label} #${i + 1} 启动` });
+      break;
+    }
+  } else if (wantDown) {
+    const candidates = running.map((_, i) => i).filter(i => running[i] && t - since[i] >= spec.minRunTime);
+    if (candidates.length) {
+      const i = candidates.reduce((a, b) => since[b] > since[a] ? b : a);
+      running[i] = false;
+      since[i] = t;
+      events.push({ t, kind: 'PUMP', nodeId: node.id, message: `${node.label} #${i + 1} 停机` });
+      if (!running.some(Boolean)) lead = (lead + 1) % spec.units;
+    }
+  }
+  return { station: { running, since, starts, lead }, events };
+};
@@ -0,0 +1,143 @@
+import { Alarm, CanvasEdge, CanvasNode, ComparisonKpis, CostSummary, HistoryStore, ProjectFile, RunExport, RunMetadata } from '../types';
+import { createKpiTracker } from './comparison';
+import { DT } from './simulationEngine';
+import { SAMPLE_FIELDS } from '../utils/historyStore';
+
+export const RUN_EXPORT_VERSION = 1;
+const CHUNK_ROWS = 5000; // Rows per serialised part
+
+// Keys serialised in a fixed order so equal values give equal text
+const stableStringify = (value: unknown): string => {
+  if (Array.isArray(value)) return `[${value.map(stableStringify).join(',')}]`;
+  if (value && typeof value === 'object') {
+    const obj = value as Record<string, unknown>;
+    return `{${Object.keys(obj).sort().filter(k => obj[k] !== undefined).map(k => `${JSON.stringify(k)}:${stableStringify(obj[k])}`).join(',')}}`;
+  }
+  return JSON.stringify(value);
+};
+
+/**
+ * FNV-1a hash of the network as the engine sees it: node ids, types and parameters and the edges
+ * with their ports. Positions and labels are left out, so moving or renaming nodes keeps the hash.
+ */
+export const hashTopology = (nodes: CanvasNode[], edges: CanvasEdge[]) => {
+  const text = stableStringify({
+    nodes: [...nodes].sort((a, b) => a.id.localeCompare(b.id)).map(n => ({ id: n.id, type: n.type, data: n.data })),
+    edges: [...edges].sort((a, b) => a.id.localeCompare(b.id)).map(e => ({ source: e.source, target: e.target, sourcePort: e.sourcePort, targetPort: e.targetPort }))
+  });
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < text.length; i++) {
+    hash ^= text.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return (hash >>> 0).toString(16).padStart(8, '0');
+};
+
+// Control KPIs over the stored history, with the water and energy figures of the cost summary
+export const getRunKpis = (store: HistoryStore, costs: CostSummary): ComparisonKpis => {
+  const tracker = createKpiTracker();
+  const level = store.columns.level;
+  const target = store.columns.target;
+  for (let i = 0; level && target && i < store.length; i++) {
+    tracker.add({ t: store.time[i], level: level[i], target: target[i] }, i > 0 ? store.time[i] - store.time[i - 1] : DT);
+  }
+  return { ...tracker.finish(), spill: costs.waterLost, unmet: costs.unmet, energy: costs.pumpEnergy, cost: costs.runCost };
+};
+
+// Scalar fields first, then node and edge series in key order
+const getColumns = (store: HistoryStore) => {
+  const scalars = SAMPLE_FIELDS.filter(f => store.columns[f]);
+  const rest = Object.keys(store.columns).filter(k => !(SAMPLE_FIELDS as readonly string[]).includes(k)).sort();
+  return [...scalars, ...rest];
+};
+
+// Values go out as stored; missing ones become null
+const exact = (v: number) => Number.isFinite(v) ? v : null;
+const roundTime = (t: number) => Number(t.toFixed(3));
+
+// Everything but the samples, which the serialisers read straight from the store's columns
+export const createRunExport = (
+  project: Omit<ProjectFile, 'version' | 'savedAt'>, store: HistoryStore, costs: CostSummary, alarms: Alarm[]
+): RunExport => {
+  const { name, nodes, edges, paradigm, seed, ...parameters } = project;
+  const metadata: RunMetadata = {
+    version: RUN_EXPORT_VERSION,
+    kind: 'run',
+    name,
+    exportedAt: new Date().toISOString(),
+    paradigm,
+    topologyHash: hashTopology(nodes, edges),
+    seed,
+    dt: DT,
+    start: store.length ? store.time[0] : 0,
+    end: store.length ? store.time[store.length - 1] : 0,
+    samples: store.length,
+    reducedBefore: store.reducedBefore,
+    parameters
+  };
+  return { metadata, kpis: getRunKpis(store, costs), costs, columns: getColumns(store), events: store.events, alarms };
+};
+
+// One column of the store as JSON array text, CHUNK_ROWS values per part
+const jsonArrayParts = (values: Float64Array, length: number, format: (v: number) => number | null) => {
+  const parts = ['['];
+  for (let start = 0; start < length; start += CHUNK_ROWS) {
+    const items: (number | null)[] = [];
+    for (let i = start; i < Math.min(length, start + CHUNK_ROWS); i++) items.push(format(values[i]));
+    parts.push((start ? ',' : '') + items.join(','));
+  }
+  parts.push(']');
+  return parts;
+};
+
+/**
+ * JSON with the export header and the samples as `time` plus one `series` array per column, null
+ * where a series had no value. Returned in chunks like the CSV.
+ */
+export const serializeRunJson = (run: RunExport, store: HistoryStore): string[] => {
+  const head = JSON.stringify(run);
+  const parts = [head.slice(0, -1), ',"time":', ...jsonArrayParts(store.time, store.length, roundTime), ',"series":{'];
+  run.columns.forEach((key, i) => {
+    parts.push(`${i ? ',' : ''}${JSON.stringify(key)}:`, ...jsonArrayParts(store.columns[key], store.length, exact));
+  });
+  parts.push('}}');
+  return parts;
+};
+
+const csvField = (text: string) => /[",\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+
+/**
+ * CSV with the metadata, KPIs and cost summary as `#` comment lines above one row per sample.
+ * Events go in the last column of the first row at or after their time. Rows are read from the
+ * store's columns and returned in chunks, so a long run goes straight into a Blob without copies
+ * of the columns or one huge string.
+ */
+export const serializeRunCsv = (run: RunExport, store: HistoryStore): string[] => {
+  const { metadata, kpis, costs, columns } = run;
+  const { time, length } = store;
+  const series = columns.map(k => store.columns[k]);
+  const header = [
+    `# hydrosim run export v${metadata.version}`,
+    ...Object.entries(metadata).filter(([k]) => k !== 'version' && k !== 'kind').map(([k, v]) => `# ${k}: ${typeof v === 'object' ? JSON.stringify(v) : v}`),
+    ...Object.entries(kpis).map(([k, v]) => `# kpi.${k}: ${v ?? ''}`),
+    ...Object.entries(costs).map(([k, v]) => `# cost.${k}: ${v}`),
+    ['t', ...columns, 'events'].map(csvField).join(',')
+  ];
+  // Events are in time order, so one pass matches them to rows
+  const eventsByRow: Record<number, string[]> = {};
+  let row = 0;
+  run.events.forEach(e => {
+    while (row < length - 1 && time[row] < e.t - 1e-6) row++;
+    (eventsByRow[row] ??= []).push(`[${e.kind}] ${e.message}`);
+  });
+  const parts = [header.join('\n') + '\n'];
+  for (let start = 0; start < length; start += CHUNK_ROWS) {
+    const lines: string[] = [];
+    for (let i = start; i < Math.min(length, start + CHUNK_ROWS); i++) {
+      const values = series.map(column => exact(column[i]) ?? '');
+      lines.push([roundTime(time[i]), ...values, csvField(eventsByRow[i]?.join(' | ') ?? '')].join(','));
+    }
+    parts.push(lines.join('\n') + '\n');
+  }
+  return parts;
+};
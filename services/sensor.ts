@@ -0,0 +1,28 @@
+import { FaultState, SensorState } from '../types';
+import { nextGaussian, nextRandom } from '../utils/random';
+
+export const createSensorState = (): SensorState => ({ bias: 0, reading: null, valid: true });
+
+/**
+ * Level transmitter between the plant and the controller. Bias drifts at a constant rate while the
+ * drift fault is active and is recalibrated away once it clears; noise is Gaussian; a stuck sensor repeats its
+ * last reading and a dropped sample is held at the last valid value. Random draws come from `rng`.
+ */
+export const readSensor = (level: number, faults: FaultState, sensor: SensorState, rng: number, dt: number) => {
+  const bias = faults.sensorDrift.active ? sensor.bias + faults.sensorDrift.value / 1000 * dt : 0;
+  let noise = 0;
+  if (faults.sensorNoise.active) {
+    const [z, next] = nextGaussian(rng);
+    noise = z * faults.sensorNoise.value / 100;
+    rng = next;
+  }
+  let valid = true;
+  if (faults.sensorDropout.active) {
+    const [u, next] = nextRandom(rng);
+    valid = u >= faults.sensorDropout.value / 100;
+    rng = next;
+  }
+  const held = sensor.reading ?? level + bias;
+  const reading = faults.sensorStuck.active ? held : valid ? level + bias + noise : held;
+  return { reading, sensor: { bias, reading, valid }, rng };
+};
@@ -0,0 +1,75 @@
+import { describe, expect, it } from 'vitest';
+import { CanvasNode, DesignParadigm, SimulationInputs, SimulationState, TimelineEvent } from '../types';
+import { DEFAULT_CONTROL_TUNING, DEFAULT_MODEL_MISMATCH } from './controllers';
+import { DEFAULT_FAULTS } from './faults';
+import { DEFAULT_DEMAND_PATTERN, DEFAULT_SETPOINT_PATTERN, DT, loadScenario, stepSimulation } from './simulationEngine';
+
+const node = (id: string, type: CanvasNode['type'], data: any = {}): CanvasNode => ({ id, type, x: 0, y: 0, label: id, data });
+
+const PARADIGM: DesignParadigm = {
+  type: 'TRADITIONAL', name: 'PID', description: '', tankArea: 80, algorithm: 'PID',
+  infrastructureCost: '', computeCost: '', resilience: ''
+};
+
+// Source → pump → 5 s pipe → reservoir → demand, the default canvas
+const createInputs = (): SimulationInputs => ({
+  nodes: [node('n1', 'SOURCE'), node('n2', 'PUMP', { efficiency: 100 }), node('n3', 'PIPE', { delay: 5 }), node('n4', 'RESERVOIR', { area: 80 }), node('n5', 'DEMAND')],
+  edges: [
+    { id: 'e1', source: 'n1', target: 'n2' },
+    { id: 'e2', source: 'n2', target: 'n3' },
+    { id: 'e3', source: 'n3', target: 'n4' },
+    { id: 'e4', source: 'n4', target: 'n5' }
+  ],
+  paradigm: PARADIGM,
+  faults: DEFAULT_FAULTS,
+  nodeFaults: [],
+  tuning: DEFAULT_CONTROL_TUNING,
+  mismatch: DEFAULT_MODEL_MISMATCH
+});
+
+const run = (timeline: TimelineEvent[], seconds: number, inputs = createInputs()) => {
+  let state = loadScenario({ demandPattern: DEFAULT_DEMAND_PATTERN, setpointPattern: DEFAULT_SETPOINT_PATTERN, timeline, seed: 20240601 });
+  for (let i = 0; i < Math.round(seconds / DT); i++) state = stepSimulation(state, inputs, DT);
+  return state;
+};
+
+describe('stepSimulation', () => {
+  it('leaves the previous state untouched', () => {
+    const state = run([], 10);
+    const before = JSON.stringify(state);
+    stepSimulation(state, createInputs(), DT);
+    expect(JSON.stringify(state)).toBe(before);
+  });
+
+  it('is deterministic for a seed', () => {
+    expect(run([], 30)).toEqual(run([], 30));
+  });
+
+  it('keeps the default PID loop on its known trajectory', () => {
+    const state = run([], 300);
+    expect(state.time).toBeCloseTo(300, 6);
+    expect(state.levels.n4).toBeCloseTo(293.412, 3);
+  });
+
+  it('fires timeline events and logs them in the sample', () => {
+    const timeline: TimelineEvent[] = [{ id: 'p', time: 1, label: '', action: { type: 'PAUSE' } }];
+    let state = run(timeline, 1 - DT / 2);
+    expect(state.pauseRequested).toBeFalsy();
+    state = stepSimulation(state, createInputs(), DT);
+    expect(state.pauseRequested).toBe(true);
+    expect(state.sample?.events?.map(e => e.kind)).toContain('PLAN');
+  });
+
+  it('skips events aimed at nodes no longer on the canvas', () => {
+    const timeline: TimelineEvent[] = [{ id: 'o', time: 1, label: '', action: { type: 'OPENING', nodeId: 'gone', open: 10 } }];
+    const state = run(timeline, 5);
+    expect(state.timelineRuntime.o).toBeUndefined();
+    expect(state.overrides.openings).toEqual({});
+  });
+
+  it('bounds the event log under a repeating event', () => {
+    const timeline: TimelineEvent[] = [{ id: 'r', time: 0, label: '', action: { type: 'PAUSE' }, repeat: { interval: DT, count: 0 } }];
+    const state: SimulationState = run(timeline, 60);
+    expect(state.log.length).toBeLessThanOrEqual(200);
+  });
+});
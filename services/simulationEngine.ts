@@ -0,0 +1,287 @@
+import { SimulationState, SimulationInputs, HistorySample, DisturbanceConfig, TimelineEvent, TimelineAction, TimelineRuntime, EventLogEntry, PumpStationState } from '../types';
+import { createDisturbanceMemory, getDisturbanceForecast, stepDisturbance } from '../utils/disturbance';
+import { DEFAULT_SEED, deriveSeed } from '../utils/random';
+import { INITIAL_LEVEL, analyzeTopology, solveHydraulics, getPumpCapacity, getTransportDelay } from './hydraulicSolver';
+import { updateAlarms } from './alarms';
+import { accumulateEnergy, createEnergyAccount } from './costs';
+import { countRunning, getUnitCapacity, stagePumpStation } from './pumps';
+import { computePid, createSmithMemory, getDelaySteps, getInternalModel, getSmithFeedback, recordOutput, updateSmithMemory } from './controllers';
+import { createMpcMemory, solveMpc } from './mpc';
+import { createSensorState, readSensor } from './sensor';
+import { applyNodeFaults, getFaultEvents } from './faults';
+import { applyOpenings, createOverrides, getDueTime, getEventLabel, isConditionTrue, isEventDone, isEventOrphaned } from './timeline';
+
+export { INITIAL_LEVEL };
+export const DT = 0.1;
+
+// Random streams derived from the scenario seed
+const DEMAND_STREAM = 0;
+const SETPOINT_STREAM = 1;
+const FAULT_STREAM = 2;
+
+const LOG_SIZE = 200;
+
+export const DEFAULT_DEMAND_PATTERN: DisturbanceConfig = { type: 'STEP', base: 50, amplitude: 100, frequency: 0.1, active: true };
+export const DEFAULT_SETPOINT_PATTERN: DisturbanceConfig = { type: 'CONSTANT', base: INITIAL_LEVEL, amplitude: 0, frequency: 0, active: true };
+
+export const createSimulationState = (
+  demandPattern: DisturbanceConfig,
+  setpointPattern: DisturbanceConfig,
+  seed: number = DEFAULT_SEED
+): SimulationState => ({
+  time: 0,
+  seed,
+  rng: deriveSeed(seed, FAULT_STREAM),
+  sensor: createSensorState(),
+  levels: {},
+  pipeBuffers: {},
+  integral: 0,
+  lastError: 0,
+  lastOut: 0,
+  outputHistory: [],
+  smith: createSmithMemory(),
+  mpc: createMpcMemory(),
+  demandPattern,
+  setpointPattern,
+  demandMemory: createDisturbanceMemory(demandPattern, deriveSeed(seed, DEMAND_STREAM)),
+  setpointMemory: createDisturbanceMemory(setpointPattern, deriveSeed(seed, SETPOINT_STREAM)),
+  timeline: [],
+  timelineRuntime: {},
+  overrides: createOverrides(),
+  pauseRequested: false,
+  log: [],
+  alarms: [],
+  pumps: {},
+  energy: createEnergyAccount(),
+  sample: null
+});
+
+// Drop all stored water, water in transit, controller memory, running pumps and the energy account, keeping time, patterns and the timeline.
+export const resetPlant = (state: SimulationState): SimulationState => ({
+  ...state,
+  sensor: createSensorState(),
+  levels: {},
+  pipeBuffers: {},
+  integral: 0,
+  lastError: 0,
+  lastOut: 0,
+  outputHistory: [],
+  smith: createSmithMemory(),
+  mpc: createMpcMemory(),
+  pumps: {},
+  energy: createEnergyAccount()
+});
+
+// Switch the demand or setpoint pattern, restarting its stateful generator.
+export const setPattern = (state: SimulationState, scope: 'DEMAND' | 'TARGET', pattern: DisturbanceConfig): SimulationState =>
+  scope === 'DEMAND'
+    ? { ...state, demandPattern: pattern, demandMemory: createDisturbanceMemory(pattern, deriveSeed(state.seed, DEMAND_STREAM)) }
+    : { ...state, setpointPattern: pattern, setpointMemory: createDisturbanceMemory(pattern, deriveSeed(state.seed, SETPOINT_STREAM)) };
+
+// Restart every random stream from a (new) scenario seed.
+export const reseed = (state: SimulationState, seed: number = state.seed): SimulationState => ({
+  ...state,
+  seed,
+  rng: deriveSeed(seed, FAULT_STREAM),
+  demandMemory: createDisturbanceMemory(state.demandPattern, deriveSeed(seed, DEMAND_STREAM)),
+  setpointMemory: createDisturbanceMemory(state.setpointPattern, deriveSeed(seed, SETPOINT_STREAM))
+});
+
+// Rewind to t = 0 with an empty plant, fresh random streams and every timeline event pending again.
+export const restartRun = (state: SimulationState): SimulationState => ({
+  ...reseed(resetPlant(state)),
+  time: 0,
+  timelineRuntime: {},
+  overrides: createOverrides(),
+  pauseRequested: false,
+  log: [],
+  alarms: [],
+  sample: null
+});
+
+// Fresh run of a saved scenario: patterns, timeline and seed restored, plant empty at t = 0.
+export const loadScenario = (
+  scenario: { demandPattern: DisturbanceConfig; setpointPattern: DisturbanceConfig; timeline: TimelineEvent[]; seed: number }
+): SimulationState => ({
+  ...createSimulationState(scenario.demandPattern, scenario.setpointPattern, scenario.seed),
+  timeline: scenario.timeline
+});
+
+const applyAction = (state: SimulationState, action: TimelineAction): SimulationState => {
+  const { overrides } = state;
+  switch (action.type) {
+    case 'SETPOINT': return setPattern(state, 'TARGET', action.pattern);
+    case 'DEMAND': return setPattern(state, 'DEMAND', action.pattern);
+    case 'FAULT': return { ...state, overrides: { ...overrides, faults: { ...overrides.faults, [action.fault]: { active: action.active, value: action.value } } } };
+    case 'OPENING': return { ...state, overrides: { ...overrides, openings: { ...overrides.openings, [action.nodeId]: action.open } } };
+    case 'PARADIGM': return { ...state, overrides: { ...overrides, paradigm: action.paradigm } };
+    case 'PAUSE': return { ...state, pauseRequested: true };
+  }
+};
+
+// Fire every timeline event that is due at t: timed events once their time is reached,
+// conditional ones when their condition turns true (judged on the previous step) after arming.
+// Returns the events fired alongside the state, since the log itself is trimmed.
+const applyTimeline = (state: SimulationState, inputs: SimulationInputs, t: number): { state: SimulationState; fired: EventLogEntry[] } => {
+  if (!state.timeline.length) return { state, fired: [] };
+  let next = state;
+  const fired: EventLogEntry[] = [];
+  const runtime: Record<string, TimelineRuntime> = { ...state.timelineRuntime };
+  const nodeIds = new Set(inputs.nodes.map(n => n.id));
+  state.timeline.forEach(event => {
+    const current = runtime[event.id];
+    if (isEventDone(event, current) || isEventOrphaned(event, nodeIds)) return;
+    const due = t >= getDueTime(event, current) - 1e-9;
+    if (event.condition) {
+      // Tracked from arming on, so a condition already true when armed fires at once
+      if (!due && !current) return;
+      const conditionTrue = isConditionTrue(event.condition, state);
+      runtime[event.id] = { fired: current?.fired ?? 0, lastFired: current?.lastFired ?? -Infinity, wasTrue: conditionTrue };
+      if (!due || !conditionTrue || current?.wasTrue) return;
+    } else if (!due) return;
+    next = applyAction(next, event.action);
+    runtime[event.id] = { fired: (current?.fired ?? 0) + 1, lastFired: t, wasTrue: !!event.condition };
+    fired.push({ t, kind: 'PLAN', message: getEventLabel(event, inputs.nodes) });
+  });
+  return { state: { ...next, timelineRuntime: runtime, log: fired.length ? [...next.log, ...fired].slice(-LOG_SIZE) : next.log }, fired };
+};
+
+/**
+ * Advance the simulation by one time step. Pure: the previous state is never mutated,
+ * so the engine can be driven by the UI, run in bulk or replayed from any snapshot.
+ */
+export const stepSimulation = (state: SimulationState, inputs: SimulationInputs, dt: number = DT): SimulationState => {
+  const { edges, nodeFaults, tuning, mismatch } = inputs;
+  const nextT = state.time + dt;
+  const { state: planned, fired: planEvents } = applyTimeline(state, inputs, nextT);
+  const { demandPattern, setpointPattern, overrides } = planned;
+  const faults = { ...inputs.faults, ...overrides.faults };
+  const paradigm = overrides.paradigm ?? inputs.paradigm;
+
+  // Timeline openings and node faults act on the effective parameters the plant runs with this step
+  const nodes = applyNodeFaults(applyOpenings(inputs.nodes, overrides.openings), nodeFaults, nextT);
+  const faultEvents = getFaultEvents(nodeFaults, inputs.nodes, state.time, nextT);
+
+  // Topology Analysis for Sim
+  const topology = analyzeTopology(nodes, edges);
+  const reservoir = nodes.find(n => n.id === topology.controlledReservoirId);
+  const trueLevel = reservoir ? (state.levels[reservoir.id] ?? INITIAL_LEVEL) : INITIAL_LEVEL;
+  // Controllers only ever see the transmitter output
+  const measurement = readSensor(trueLevel, faults, state.sensor, state.rng, dt);
+  const level = measurement.reading;
+  const model = getInternalModel(
+    reservoir?.data.area || paradigm.tankArea,
+    reservoir ? getTransportDelay(nodes, topology, reservoir.id) : 0,
+    mismatch
+  );
+  const pumpNodes = topology.order.map(id => nodes.find(n => n.id === id)!).filter(n => n.type === 'PUMP');
+  const maxQ = pumpNodes.reduce((sum, n) => sum + getPumpCapacity(n, faults), 0);
+
+  // Dynamics
+  const demandSignal = stepDisturbance(nextT, demandPattern, planned.demandMemory, dt);
+  const setpointSignal = stepDisturbance(nextT, setpointPattern, planned.setpointMemory, dt);
+  const demand = demandSignal.value;
+  const target = setpointSignal.value;
+  const error = target - level;
+
+  // Control: without a pump-fed reservoir there is nothing to regulate
+  // Smith acts on the measurement plus the model response still held back by the delay
+  const controlError = paradigm.algorithm === 'SMITH' ? target - getSmithFeedback(level, state.smith, model, demand) : error;
+  let integral = state.integral;
+  let mpc = state.mpc;
+  let out = 0;
+  if (reservoir) {
+    if (paradigm.algorithm === 'MPC') {
+      // Re-optimise once per MPC sample and hold the first move in between
+      const config = tuning.MPC;
+      if (!mpc.plan.length || state.time - mpc.solvedAt >= config.sampleTime - 1e-9) {
+        mpc = solveMpc({
+          time: state.time, level, lastOut: state.lastOut, outputHistory: state.outputHistory, dt, model,
+          flowLimit: maxQ, config, warmStart: mpc.plan,
+          demandAt: t => getDisturbanceForecast(t, demandPattern, demandSignal.memory, nextT),
+          setpointAt: t => getDisturbanceForecast(t, setpointPattern, setpointSignal.memory, nextT)
+        });
+      }
+      out = mpc.plan[0];
+    } else {
+      const gains = paradigm.algorithm === 'SMITH' ? tuning.SMITH : tuning.PID;
+      ({ out, integral } = computePid(gains, controlError, state, dt));
+    }
+  }
+  out = Math.max(0, Math.min(maxQ, out));
+  const outputHistory = recordOutput(state.outputHistory, out, getDelaySteps(model.delay, dt) + 1);
+  const smith = updateSmithMemory(state.smith, outputHistory, model, dt);
+
+  // Staging: each station starts or stops units for its share of the command
+  const pumps: Record<string, PumpStationState> = {};
+  const pumpUnits: Record<string, number> = {};
+  const pumpEvents: EventLogEntry[] = [];
+  pumpNodes.forEach(n => {
+    const share = maxQ > 0 ? out * getPumpCapacity(n, faults) / maxQ : 0;
+    const staged = stagePumpStation(state.pumps[n.id], n, share, getUnitCapacity(n, faults), nextT);
+    pumps[n.id] = staged.station;
+    pumpUnits[n.id] = countRunning(staged.station);
+    pumpEvents.push(...staged.events);
+  });
+
+  // Hydraulics
+  const result = solveHydraulics({
+    nodes, topology, levels: state.levels, pipeBuffers: state.pipeBuffers,
+    pumpCommand: out, pumpUnits, demand, faults, dt
+  });
+  const alarms = updateAlarms(planned.alarms, nodes.filter(n => n.type === 'RESERVOIR'), result.levels, nextT);
+  const events = [...faultEvents, ...pumpEvents, ...alarms.events];
+  const log = events.length ? [...planned.log, ...events].slice(-LOG_SIZE) : planned.log;
+
+  const sample: HistorySample = {
+    t: nextT,
+    level: reservoir ? result.levels[reservoir.id] : trueLevel,
+    measured: level,
+    sensorValid: measurement.sensor.valid,
+    target,
+    flowIn: result.pumpFlow,
+    flowOut: demand,
+    power: result.power,
+    pumpPower: result.pumpPower,
+    output: out,
+    error: controlError,
+    integral,
+    nodes: result.flows,
+    edges: result.edgeFlows,
+    ...(planEvents.length || events.length ? { events: [...planEvents, ...events] } : {})
+  };
+
+  return {
+    ...planned,
+    time: nextT,
+    rng: measurement.rng,
+    sensor: measurement.sensor,
+    levels: result.levels,
+    pipeBuffers: result.pipeBuffers,
+    integral,
+    lastError: controlError,
+    lastOut: out,
+    outputHistory,
+    smith,
+    mpc,
+    demandMemory: demandSignal.memory,
+    setpointMemory: setpointSignal.memory,
+    log,
+    alarms: alarms.alarms,
+    pumps,
+    energy: accumulateEnergy(planned.energy, sample, state.time, dt),
+    sample
+  };
+};
+
+// Run the engine for a fixed duration without any UI, collecting every recorded sample.
+export const runSimulation = (state: SimulationState, inputs: SimulationInputs, duration: number, dt: number = DT) => {
+  const samples: HistorySample[] = [];
+  let current = state;
+  const steps = Math.round(duration / dt);
+  for (let i = 0; i < steps; i++) {
+    current = stepSimulation(current, inputs, dt);
+    if (current.sample) samples.push(current.sample);
+  }
+  return { state: current, samples };
+};
@@ -0,0 +1,38 @@
+import { HistorySample, SimulationInputs, SimulationState } from '../types';
+import { DT, stepSimulation } from './simulationEngine';
+
+export interface WorkerRequest {
+  state: SimulationState;
+  inputs: SimulationInputs;
+  until: number; // Simulation time to run to (s)
+  run: number;   // Echoed in every batch so the page can ignore batches of a stopped compute
+}
+
+// Progress posted every batch; `done` on the last one
+export interface WorkerBatch {
+  state: SimulationState;
+  samples: HistorySample[];
+  done: boolean;
+  run: number;
+}
+
+const BATCH_STEPS = 1000;
+
+/**
+ * Runs the engine off the UI thread up to the requested time, or until a timeline PAUSE fires.
+ * The state travels with every batch so a cancelled run keeps what was computed so far.
+ */
+self.onmessage = (e: MessageEvent<WorkerRequest>) => {
+  const { inputs, until, run } = e.data;
+  let state = e.data.state;
+  let samples: HistorySample[] = [];
+  while (state.time < until - 1e-9 && !state.pauseRequested) {
+    state = stepSimulation(state, inputs, DT);
+    if (state.sample) samples.push(state.sample);
+    if (samples.length >= BATCH_STEPS) {
+      self.postMessage({ state, samples, done: false, run } as WorkerBatch);
+      samples = [];
+    }
+  }
+  self.postMessage({ state, samples, done: true, run } as WorkerBatch);
+};
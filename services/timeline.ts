@@ -0,0 +1,117 @@
+import {
+  CanvasNode, ConditionSignal, FaultState, ScenarioOverrides, SimulationState, TimelineAction,
+  TimelineActionType, TimelineCondition, TimelineEvent, TimelineRuntime
+} from '../types';
+import { INITIAL_LEVEL } from './hydraulicSolver';
+
+export const TIMELINE_ACTIONS: Record<TimelineActionType, { label: string; color: string }> = {
+  SETPOINT: { label: '目标设定', color: '#10b981' },
+  DEMAND: { label: '负载模式', color: '#3b82f6' },
+  FAULT: { label: '故障开关', color: '#ef4444' },
+  OPENING: { label: '阀门开度', color: '#f59e0b' },
+  PARADIGM: { label: '范式切换', color: '#a855f7' },
+  PAUSE: { label: '暂停', color: '#94a3b8' }
+};
+
+export const CONDITION_SIGNALS: Record<ConditionSignal, { label: string; unit: string }> = {
+  LEVEL: { label: '水位', unit: 'm' },
+  ERROR: { label: '偏差 SP−PV', unit: 'm' },
+  FLOW_IN: { label: '泵站流量', unit: 'm³/s' },
+  DEMAND: { label: '需求流量', unit: 'm³/s' }
+};
+
+export const FAULT_LABELS: Record<keyof FaultState, string> = {
+  leakage: '池体泄漏',
+  pumpEfficiency: '泵效率下降',
+  sensorDrift: '传感器漂移',
+  sensorNoise: '传感器噪声',
+  sensorStuck: '传感器卡死',
+  sensorDropout: '信号丢包'
+};
+
+export const createOverrides = (): ScenarioOverrides => ({ faults: {}, openings: {}, paradigm: null });
+
+export const describeAction = (action: TimelineAction, nodes: CanvasNode[] = []) => {
+  switch (action.type) {
+    case 'SETPOINT': return `目标 → ${action.pattern.type} ${action.pattern.base} m`;
+    case 'DEMAND': return `负载 → ${action.pattern.type} ${action.pattern.base} m³/s`;
+    case 'FAULT': return `${FAULT_LABELS[action.fault]} ${action.active ? `开启 ${action.value}` : '关闭'}`;
+    case 'OPENING': return `${nodes.find(n => n.id === action.nodeId)?.label ?? action.nodeId} 开度 → ${action.open}%`;
+    case 'PARADIGM': return `切换至 ${action.paradigm.name} (${action.paradigm.algorithm})`;
+    case 'PAUSE': return '暂停仿真';
+  }
+};
+
+export const describeCondition = (c: TimelineCondition, nodes: CanvasNode[] = []) => {
+  const node = c.nodeId ? `${nodes.find(n => n.id === c.nodeId)?.label ?? c.nodeId} ` : '';
+  return `${node}${CONDITION_SIGNALS[c.signal].label} ${c.op} ${c.value} ${CONDITION_SIGNALS[c.signal].unit}`;
+};
+
+export const getEventLabel = (event: TimelineEvent, nodes: CanvasNode[] = []) => event.label || describeAction(event.action, nodes);
+
+// Whether an event has used up all its firings
+export const isEventDone = (event: TimelineEvent, runtime?: TimelineRuntime) => {
+  const fired = runtime?.fired ?? 0;
+  if (!event.repeat) return fired > 0;
+  return event.repeat.count > 0 && fired >= event.repeat.count;
+};
+
+/**
+ * Earliest time the event may fire next. Timed repeats keep their own grid (time + n·interval),
+ * so rescheduling an event moves every remaining repetition; conditional repeats use the
+ * interval as a cooldown after the last firing.
+ */
+export const getDueTime = (event: TimelineEvent, runtime?: TimelineRuntime) => {
+  const fired = runtime?.fired ?? 0;
+  if (fired === 0 || !event.repeat) return event.time;
+  return event.condition ? runtime!.lastFired + event.repeat.interval : event.time + fired * event.repeat.interval;
+};
+
+// Firing times of a timed event up to `until`, for drawing repetitions on the timeline
+export const getScheduledTimes = (event: TimelineEvent, until: number) => {
+  if (!event.repeat || event.condition || event.repeat.interval <= 0) return [event.time];
+  const times: number[] = [];
+  for (let k = 0; event.time + k * event.repeat.interval <= until && (event.repeat.count === 0 || k < event.repeat.count); k++) {
+    times.push(event.time + k * event.repeat.interval);
+  }
+  return times;
+};
+
+// Signal value as of the last completed step
+export const readConditionSignal = (condition: TimelineCondition, state: SimulationState) => {
+  const sample = state.sample;
+  switch (condition.signal) {
+    case 'LEVEL': return condition.nodeId ? (state.levels[condition.nodeId] ?? INITIAL_LEVEL) : (sample?.level ?? INITIAL_LEVEL);
+    case 'ERROR': return sample ? sample.target - sample.level : 0;
+    case 'FLOW_IN': return sample?.flowIn ?? 0;
+    case 'DEMAND': return sample?.flowOut ?? 0;
+  }
+};
+
+export const isConditionTrue = (condition: TimelineCondition, state: SimulationState) => {
+  const value = readConditionSignal(condition, state);
+  return condition.op === '<' ? value < condition.value : value > condition.value;
+};
+
+// Nodes an event refers to through its action or its condition
+export const getEventNodeIds = (event: TimelineEvent) => [
+  ...(event.action.type === 'OPENING' ? [event.action.nodeId] : []),
+  ...(event.condition?.nodeId !== undefined ? [event.condition.nodeId] : [])
+];
+
+// An event aimed at a node no longer on the canvas is kept, so undo can bring it back, but never fires
+export const isEventOrphaned = (event: TimelineEvent, nodeIds: Set<string>) => getEventNodeIds(event).some(id => !nodeIds.has(id));
+
+export const getOrphanedEvents = (timeline: TimelineEvent[], nodes: CanvasNode[]) => {
+  const ids = new Set(nodes.map(n => n.id));
+  return timeline.filter(e => isEventOrphaned(e, ids));
+};
+
+// Canvas nodes with an opening a timeline event can set
+export const getOpeningNodes = (nodes: CanvasNode[]) => nodes.filter(n => n.type === 'VALVE' || n.type === 'GATE' || n.type === 'TURBINE');
+
+// Openings set by the timeline replace the ones on the canvas
+export const applyOpenings = (nodes: CanvasNode[], openings: Record<string, number>) =>
+  Object.keys(openings).length
+    ? nodes.map(n => openings[n.id] !== undefined ? { ...n, data: { ...n.data, open: openings[n.id] } } : n)
+    : nodes;
@@ -0,0 +1,191 @@
+import { CanvasEdge, CanvasNode, NodeType, PortName, TopologyIssue, TopologyReport } from '../types';
+import { getPort, getSourcePort, getTargetPort } from './ports';
+import { ALARM_BANDS, getAlarmLimits } from './alarms';
+import { MAX_LEVEL, OVERFLOW_LEVEL } from './hydraulicSolver';
+import { getPumpSpec } from './pumps';
+import { getPipeDelay } from './pipeHydraulics';
+
+export interface ParamSpec {
+  key: string;
+  label: string;
+  unit: string;
+  min: number;
+  max: number;
+  required?: boolean; // No solver default: the node cannot be simulated without it
+  applies?: (data: any) => boolean; // Only checked when the node's other settings use it
+}
+
+const isBareDelay = (data: any) => (data.routing ?? 'DELAY') === 'DELAY';
+const isGeometric = (data: any) => !isBareDelay(data);
+
+// Physical ranges the solver is valid for
+export const PARAM_SPECS: Record<NodeType, ParamSpec[]> = {
+  SOURCE: [{ key: 'head', label: '水头', unit: 'm', min: 0, max: 1000 }],
+  PUMP: [
+    { key: 'efficiency', label: '效率', unit: '%', min: 0, max: 100, required: true },
+    { key: 'units', label: '机组台数', unit: '', min: 1, max: 20 },
+    { key: 'ratedFlow', label: '单机额定流量', unit: 'm³/s', min: 1, max: 5000 },
+    { key: 'head', label: '额定扬程', unit: 'm', min: 0, max: 500 },
+    { key: 'shutoffHead', label: '关死扬程', unit: 'm', min: 0, max: 600 },
+    { key: 'bepFlow', label: '最高效率点流量', unit: 'm³/s', min: 1, max: 5000 },
+    { key: 'bepEfficiency', label: '最高效率', unit: '%', min: 10, max: 95 },
+    { key: 'minRunTime', label: '最短运行时间', unit: 's', min: 0, max: 3600 },
+    { key: 'maxStarts', label: '每小时启动次数', unit: '', min: 1, max: 60 }
+  ],
+  PIPE: [
+    { key: 'delay', label: '滞后', unit: 's', min: 0.1, max: 3600, required: true, applies: isBareDelay },
+    { key: 'length', label: '长度', unit: 'm', min: 1, max: 500000, applies: isGeometric },
+    { key: 'diameter', label: '管径', unit: 'm', min: 0.05, max: 50, applies: isGeometric },
+    { key: 'roughness', label: '糙率', unit: '', min: 0.008, max: 0.1, applies: isGeometric },
+    { key: 'slope', label: '坡度', unit: '', min: 0, max: 0.1, applies: isGeometric },
+    { key: 'muskingumX', label: 'Muskingum X', unit: '', min: 0, max: 0.45, applies: data => data.routing === 'MUSKINGUM' }
+  ],
+  RESERVOIR: [
+    { key: 'area', label: '面积', unit: 'm²', min: 1, max: 100000, required: true },
+    { key: 'overflowLevel', label: '溢流堰顶', unit: 'm', min: 0, max: 1000 },
+    { key: 'minLevel', label: '最低水位', unit: 'm', min: 0, max: 1000 },
+    { key: 'maxLevel', label: '最高水位', unit: 'm', min: 0, max: 1000 },
+    { key: 'spillwayCapacity', label: '溢洪道泄量', unit: 'm³/s', min: 0, max: 10000 }
+  ],
+  DEMAND: [],
+  VALVE: [
+    { key: 'open', label: '开度', unit: '%', min: 0, max: 100 },
+    { key: 'area', label: '过流面积', unit: 'm²', min: 0.01, max: 500 }
+  ],
+  GATE: [
+    { key: 'open', label: '开度', unit: '%', min: 0, max: 100 },
+    { key: 'width', label: '堰宽', unit: 'm', min: 0.1, max: 200 }
+  ],
+  TURBINE: [
+    { key: 'open', label: '导叶开度', unit: '%', min: 0, max: 100 },
+    { key: 'capacity', label: '装机容量', unit: 'MW', min: 0, max: 5000 },
+    { key: 'ratedFlow', label: '额定流量', unit: 'm³/s', min: 0, max: 5000 }
+  ]
+};
+
+// Port rules: an edge leaves through one of the source's outlets and enters one of the target's inlets
+const portIssue = (source: CanvasNode, target: CanvasNode, sourcePort: PortName, targetPort: PortName): string | null => {
+  if (source.id === target.id) return `${source.label} 不能连接到自身`;
+  if (getPort(source.type, sourcePort)?.direction !== 'out') {
+    return source.type === 'DEMAND' ? `${source.label} 是用户终端，没有出水口` : `${source.label} 没有出口 ${sourcePort}`;
+  }
+  if (getPort(target.type, targetPort)?.direction !== 'in') {
+    return target.type === 'SOURCE' ? `${target.label} 是水源，没有进水口` : `${target.label} 没有进口 ${targetPort}`;
+  }
+  return null;
+};
+
+const edgeKey = (e: Omit<CanvasEdge, 'id'>) => `${e.source}.${getSourcePort(e)}->${e.target}.${getTargetPort(e)}`;
+
+// Why a new edge would be rejected, or null when it is fine
+export const checkConnection = (nodes: CanvasNode[], edges: CanvasEdge[], edge: Omit<CanvasEdge, 'id'>) => {
+  const source = nodes.find(n => n.id === edge.source);
+  const target = nodes.find(n => n.id === edge.target);
+  if (!source || !target) return '连接的节点不存在';
+  if (edges.some(e => edgeKey(e) === edgeKey(edge))) return `${source.label} → ${target.label} 已存在`;
+  return portIssue(source, target, getSourcePort(edge), getTargetPort(edge));
+};
+
+export const validateParams = (node: CanvasNode): TopologyIssue[] =>
+  PARAM_SPECS[node.type].filter(spec => !spec.applies || spec.applies(node.data ?? {})).flatMap((spec): TopologyIssue[] => {
+    const value = node.data?.[spec.key];
+    if (value === undefined || value === null || value === '') {
+      return spec.required
+        ? [{ kind: 'MISSING_PARAM', severity: 'error', nodeId: node.id, message: `${node.label} 缺少参数 ${spec.label}` }]
+        : [];
+    }
+    if (typeof value !== 'number' || !Number.isFinite(value) || value < spec.min || value > spec.max) {
+      return [{
+        kind: 'OUT_OF_RANGE', severity: 'error', nodeId: node.id,
+        message: `${node.label} ${spec.label} = ${value}${spec.unit} 超出范围 ${spec.min}~${spec.max}${spec.unit}`
+      }];
+    }
+    return [];
+  });
+
+// Levels must stack: minimum < spillway crest ≤ wall, and LL ≤ L < H ≤ HH
+const checkReservoirLevels = (node: CanvasNode): TopologyIssue[] => {
+  const issues: TopologyIssue[] = [];
+  const minLevel = node.data.minLevel ?? 0;
+  const crest = node.data.overflowLevel ?? OVERFLOW_LEVEL;
+  const maxLevel = node.data.maxLevel ?? MAX_LEVEL;
+  if (!(minLevel < crest && crest <= maxLevel)) {
+    issues.push({ kind: 'OUT_OF_RANGE', severity: 'error', nodeId: node.id, message: `${node.label} 水位设置应满足 最低 < 堰顶 ≤ 最高 (${minLevel} / ${crest} / ${maxLevel} m)` });
+  }
+  const limits = getAlarmLimits(node);
+  const values = ALARM_BANDS.map(b => limits[b]);
+  if (values.some(v => typeof v !== 'number' || !Number.isFinite(v)) || !(values[0] <= values[1] && values[1] < values[2] && values[2] <= values[3])) {
+    issues.push({ kind: 'OUT_OF_RANGE', severity: 'warning', nodeId: node.id, message: `${node.label} 报警限值应满足 LL ≤ L < H ≤ HH (${values.join(' / ')} m)` });
+  }
+  return issues;
+};
+
+// The H–Q curve must fall from shut-off to rated head, and the efficiency parabola stay positive up to rated flow
+const checkPumpCurve = (node: CanvasNode): TopologyIssue[] => {
+  const spec = getPumpSpec(node);
+  const issues: TopologyIssue[] = [];
+  if (spec.shutoffHead < spec.ratedHead) {
+    issues.push({ kind: 'OUT_OF_RANGE', severity: 'error', nodeId: node.id, message: `${node.label} 关死扬程 ${spec.shutoffHead} m 低于额定扬程 ${spec.ratedHead} m` });
+  }
+  if (spec.ratedFlow >= 2 * spec.bepFlow) {
+    issues.push({ kind: 'OUT_OF_RANGE', severity: 'error', nodeId: node.id, message: `${node.label} 额定流量须小于最高效率点流量的两倍` });
+  }
+  return issues;
+};
+
+// Geometric pipes derive their travel time from length, size and slope; it has the same limit as a set delay
+const checkPipeDelay = (node: CanvasNode): TopologyIssue[] => {
+  const spec = PARAM_SPECS.PIPE.find(s => s.key === 'delay')!;
+  const delay = getPipeDelay(node);
+  if (!isGeometric(node.data ?? {}) || !(delay > spec.max)) return [];
+  return [{
+    kind: 'OUT_OF_RANGE', severity: 'error', nodeId: node.id,
+    message: `${node.label} 推算滞后 ${Math.round(delay)}${spec.unit} 超出上限 ${spec.max}${spec.unit}`
+  }];
+};
+
+/**
+ * Full design check on top of the solver's topology report: port compatibility, self loops,
+ * duplicate edges, reservoirs without inflow, a SOURCE → DEMAND path, parameter ranges, derived
+ * pipe delays and the consistency of reservoir levels, alarm limits and pump curves.
+ */
+export const validateNetwork = (nodes: CanvasNode[], edges: CanvasEdge[], topology: TopologyReport): TopologyIssue[] => {
+  const issues: TopologyIssue[] = [...topology.issues];
+  const byId: Record<string, CanvasNode> = {};
+  nodes.forEach(n => { byId[n.id] = n; });
+
+  const seen = new Set<string>();
+  edges.forEach(e => {
+    const source = byId[e.source];
+    const target = byId[e.target];
+    if (!source || !target) return;
+    const key = edgeKey(e);
+    if (seen.has(key)) issues.push({ kind: 'DUPLICATE_EDGE', severity: 'warning', edgeId: e.id, message: `${source.label} → ${target.label} 存在重复连接` });
+    seen.add(key);
+    const problem = portIssue(source, target, getSourcePort(e), getTargetPort(e));
+    if (problem) issues.push({ kind: source.id === target.id ? 'SELF_LOOP' : 'INVALID_PORT', severity: 'error', edgeId: e.id, nodeId: source.id, message: problem });
+  });
+
+  nodes.forEach(n => {
+    if (n.type === 'RESERVOIR' && !topology.upstream[n.id]?.length) {
+      issues.push({ kind: 'NO_INFLOW', severity: 'error', nodeId: n.id, message: `${n.label} 没有任何进水` });
+    }
+    issues.push(...validateParams(n));
+    if (n.type === 'RESERVOIR') issues.push(...checkReservoirLevels(n));
+    if (n.type === 'PUMP') issues.push(...checkPumpCurve(n));
+    if (n.type === 'PIPE') issues.push(...checkPipeDelay(n));
+  });
+
+  // At least one demand must be reachable from a source through solvable nodes
+  const demands = nodes.filter(n => n.type === 'DEMAND');
+  const sources = nodes.filter(n => n.type === 'SOURCE');
+  const ordered = new Set(topology.order);
+  const reached = new Set(sources.filter(n => ordered.has(n.id)).map(n => n.id));
+  topology.order.forEach(id => {
+    if (reached.has(id)) topology.downstream[id].forEach(e => reached.add(e.target));
+  });
+  if (!sources.length || !demands.length || !demands.some(n => reached.has(n.id))) {
+    issues.push({ kind: 'NO_SUPPLY_PATH', severity: 'error', message: '没有从水源到用户的完整输水路径' });
+  }
+  return issues;
+};
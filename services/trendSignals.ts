@@ -0,0 +1,109 @@
+import { CanvasNode, ChartPanel, ChartSignal, NodeFlow, NodeType, TrendSignal } from '../types';
+import { SampleField, nodeSeriesKey } from '../utils/historyStore';
+
+export const SIGNAL_COLORS = ['#06b6d4', '#f59e0b', '#10b981', '#3b82f6', '#ef4444', '#a855f7', '#f472b6', '#84cc16', '#e2e8f0'];
+
+const LOOP_GROUP = '控制回路';
+
+const LOOP_SIGNALS: { key: Exclude<SampleField, 'sensorValid'>; label: string; unit: string }[] = [
+  { key: 'level', label: '水位 Level', unit: 'm' },
+  { key: 'measured', label: '测量 PV', unit: 'm' },
+  { key: 'target', label: '目标 SP', unit: 'm' },
+  { key: 'error', label: '偏差 Error', unit: 'm' },
+  { key: 'output', label: '控制输出 OP', unit: 'm³/s' },
+  { key: 'flowIn', label: '进水 Flow', unit: 'm³/s' },
+  { key: 'flowOut', label: '需求 Out', unit: 'm³/s' },
+  { key: 'power', label: '发电 MW', unit: 'MW' },
+  { key: 'pumpPower', label: '泵功率', unit: 'MW' }
+];
+
+export const FLOW_FIELDS: Record<keyof NodeFlow, { label: string; unit: string }> = {
+  inflow: { label: '入流', unit: 'm³/s' },
+  outflow: { label: '出流', unit: 'm³/s' },
+  level: { label: '水位', unit: 'm' },
+  unmet: { label: '缺水', unit: 'm³/s' },
+  opening: { label: '开度', unit: '%' },
+  head: { label: '水头差', unit: 'm' },
+  power: { label: '发电', unit: 'MW' },
+  leak: { label: '泄漏', unit: 'm³/s' },
+  spill: { label: '溢流', unit: 'm³/s' },
+  overtop: { label: '漫顶', unit: 'm³/s' },
+  bypass: { label: '旁通', unit: 'm³/s' },
+  headLoss: { label: '水头损失', unit: 'm' },
+  unitsRunning: { label: '运行台数', unit: '台' },
+  powerUse: { label: '耗电', unit: 'MW' }
+};
+
+// Node flow fields worth plotting for each node type
+const NODE_FIELDS: Record<NodeType, (keyof NodeFlow)[]> = {
+  SOURCE: ['outflow'],
+  PUMP: ['outflow', 'unitsRunning', 'powerUse'],
+  PIPE: ['inflow', 'outflow', 'headLoss', 'leak'],
+  RESERVOIR: ['level', 'inflow', 'outflow', 'spill', 'overtop', 'leak'],
+  DEMAND: ['inflow', 'unmet'],
+  VALVE: ['opening', 'outflow', 'head', 'bypass'],
+  GATE: ['opening', 'outflow', 'head', 'bypass'],
+  TURBINE: ['opening', 'outflow', 'head', 'power', 'bypass']
+};
+
+// Every series on offer for the current canvas: the control loop first, then each node
+export const getTrendSignals = (nodes: CanvasNode[]): TrendSignal[] => [
+  ...LOOP_SIGNALS.map(s => ({ ...s, group: LOOP_GROUP })),
+  ...nodes.flatMap(n => NODE_FIELDS[n.type].map(f => ({
+    key: nodeSeriesKey(n.id, f),
+    label: `${n.label} ${FLOW_FIELDS[f].label}`,
+    unit: FLOW_FIELDS[f].unit,
+    group: n.label
+  })))
+];
+
+export const DEFAULT_CHART_PANELS: ChartPanel[] = [
+  {
+    id: 'level',
+    signals: [{ key: 'measured', color: '#f59e0b' }, { key: 'target', color: '#10b981' }, { key: 'level', color: '#06b6d4' }],
+    axis: { auto: false, min: 0, max: 350 }
+  },
+  {
+    id: 'flow',
+    signals: [{ key: 'flowIn', color: '#3b82f6' }, { key: 'flowOut', color: '#ef4444' }],
+    axis: { auto: false, min: 0, max: 250 }
+  }
+];
+
+export const createChartPanel = (signals: ChartSignal[] = []): ChartPanel => ({
+  id: `p${Date.now()}`,
+  signals,
+  axis: { auto: true, min: 0, max: 100 }
+});
+
+// First palette colour not already used in the panel
+export const nextSignalColor = (panel: ChartPanel) =>
+  SIGNAL_COLORS.find(c => !panel.signals.some(s => s.color === c)) ?? SIGNAL_COLORS[panel.signals.length % SIGNAL_COLORS.length];
+
+/**
+ * Axis range for the visible values, padded by 5% and widened to round tick steps. A flat trace
+ * gets a band of ±1 around its value so it still sits mid-panel.
+ */
+export const getAutoRange = (min: number, max: number): [number, number] => {
+  if (!Number.isFinite(min) || !Number.isFinite(max)) return [0, 1];
+  if (max - min < 1e-9) return [min - 1, max + 1];
+  const pad = (max - min) * 0.05;
+  const step = getTickStep(max - min + 2 * pad);
+  return [Math.floor((min - pad) / step) * step, Math.ceil((max + pad) / step) * step];
+};
+
+// A 1, 2 or 5 × 10^n step giving about four intervals over the range
+export const getTickStep = (range: number) => {
+  if (!(range > 0)) return 1;
+  const raw = range / 4;
+  const mag = Math.pow(10, Math.floor(Math.log10(raw)));
+  const n = raw / mag;
+  return (n <= 1 ? 1 : n <= 2 ? 2 : n <= 5 ? 5 : 10) * mag;
+};
+
+export const getTicks = (min: number, max: number) => {
+  const step = getTickStep(max - min);
+  const ticks: number[] = [];
+  for (let v = Math.ceil(min / step - 1e-9) * step; v <= max + step * 1e-6; v += step) ticks.push(Math.abs(v) < step * 1e-6 ? 0 : v);
+  return ticks;
+};
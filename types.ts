@@ -51,11 +51,46 @@ export interface SystemState {
   valveOpen: number;     // 0-100%
 }
 
-export interface ControlParams {
+export interface ControllerGains {
   kp: number;
   ki: number;
   kd: number;
+  integralLimit: number; // Anti-windup clamp on the integral state
+  bias: number;          // Output offset (m3/s)
+}
+
+export interface MpcConfig {
+  predictionHorizon: number; // Np, in MPC samples
+  controlHorizon: number;    // Nc, in MPC samples; the last move is held to the end of Np
+  sampleTime: number;        // s between re-optimisations
+  levelWeight: number;       // Cost per m² of tracking error
+  moveWeight: number;        // Cost per (m3/s)² of pump flow change
+  flowMin: number;           // m3/s
+  flowMax: number;           // m3/s
+  levelMin: number;          // Soft lower level limit (m)
+  levelMax: number;          // Soft upper level limit (m)
+}
+
+// Independent settings for every algorithm, so switching paradigm keeps each tuning
+export interface ControlTuning {
+  PID: ControllerGains;
+  SMITH: ControllerGains;
+  MPC: MpcConfig;
+}
+
+// Controller settings reported to the AI expert
+export interface ControlParams {
+  algorithm: ControlAlgorithm;
   targetLevel: number;
+  gains?: ControllerGains; // PID and Smith
+  mpc?: MpcConfig;
+  mismatch?: ModelMismatch; // Smith and MPC internal model
+}
+
+// Deliberate error in the internal plant model used by model-based controllers
+export interface ModelMismatch {
+  areaError: number;  // Model tank area error (%)
+  delayError: number; // Model transport delay error (%)
 }
 
 export interface FaultConfig {
@@ -64,15 +99,76 @@ export interface FaultConfig {
 }
 
 export interface FaultState {
-  leakage: FaultConfig;      // Pipe leakage coefficient
-  pumpEfficiency: FaultConfig; // Efficiency drop %
-  sensorDrift: FaultConfig;  // Drift amount (m)
+  leakage: FaultConfig;        // Tank leak: value/10 · √level (m3/s)
+  pumpEfficiency: FaultConfig; // Pump capacity drop (%)
+  sensorDrift: FaultConfig;    // Level sensor bias drift rate (mm/s)
+  sensorNoise: FaultConfig;    // Level sensor noise standard deviation (cm)
+  sensorStuck: FaultConfig;    // Level sensor frozen at its last reading (value unused)
+  sensorDropout: FaultConfig;  // Chance of a missing level reading per sample (%)
+}
+
+// Faults attached to a single canvas node, scheduled in simulation time
+export type NodeFaultKind = 'LEAK' | 'PUMP_TRIP' | 'STUCK';
+export type FaultProfile = 'STEP' | 'LINEAR' | 'EXP';
+
+export interface NodeFault {
+  id: string;
+  nodeId: string;
+  kind: NodeFaultKind;
+  value: number;           // LEAK: % of pipe flow lost, or reservoir leak coefficient; PUMP_TRIP: capacity lost (%); STUCK: opening held (%)
+  onset: number;           // Time the fault starts (s)
+  rampTime: number;        // Time to reach full severity (s)
+  profile: FaultProfile;   // Shape of the ramp-in
+  recovery: number | null; // Time the fault clears (s), null for permanent
+}
+
+export interface EventLogEntry {
+  t: number;
+  kind: 'FAULT' | 'RECOVERY' | 'PLAN' | 'ALARM' | 'PUMP';
+  message: string;
+  nodeId?: string;
+}
+
+// Reservoir level alarm bands, from low-low to high-high
+export type AlarmBand = 'LL' | 'L' | 'H' | 'HH';
+export type AlarmLimits = Record<AlarmBand, number>; // m
+
+// One excursion of a reservoir level past an alarm limit
+export interface Alarm {
+  id: string;
+  nodeId: string;
+  band: AlarmBand;
+  limit: number;             // m
+  raisedAt: number;          // s
+  clearedAt: number | null;  // null while the level is still past the limit
+  acknowledged: boolean;
+}
+
+// Lead/lag staging state of the units in one pump station
+export interface PumpStationState {
+  running: boolean[];
+  since: number[];    // Time each unit last started or stopped (s)
+  starts: number[][]; // Start times of each unit within the last hour (s)
+  lead: number;       // Unit that starts first
+}
+
+// Level transmitter state: what the controller actually sees
+export interface SensorState {
+  bias: number;            // Accumulated drift (m)
+  reading: number | null;  // Last valid reading (m), held through stuck and dropout
+  valid: boolean;          // Whether the latest sample was delivered
 }
 
 export type DisturbanceType = 
   'CONSTANT' | 'STEP' | 'RAMP' | 'SINE' | 'SQUARE' | 
   'TRIANGLE' | 'SAWTOOTH' | 'PULSE' | 'NOISE' | 
-  'RANDOM_WALK' | 'BURST';
+  'RANDOM_WALK' | 'BURST' | 'CSV_PROFILE';
+
+// One sample of a recorded time series (t in seconds)
+export interface ProfilePoint {
+  t: number;
+  value: number;
+}
 
 export interface DisturbanceConfig {
   type: DisturbanceType; 
@@ -80,15 +176,400 @@ export interface DisturbanceConfig {
   amplitude: number; 
   frequency: number;
   active: boolean;
+  seed?: number;            // Overrides the scenario seed for NOISE, BURST and RANDOM_WALK
+  profile?: ProfilePoint[]; // CSV_PROFILE, sorted by t and replayed in a loop
+  profileName?: string;
+}
+
+// Per-signal state for stateful patterns
+export interface DisturbanceMemory {
+  rng: number;   // PRNG state
+  walk: number;  // RANDOM_WALK offset from base
+  burst: number; // BURST time remaining (s)
+}
+
+// Scenario timeline: actions fired at absolute simulation times or when a condition becomes true
+export type TimelineAction =
+  | { type: 'SETPOINT'; pattern: DisturbanceConfig }
+  | { type: 'DEMAND'; pattern: DisturbanceConfig }
+  | { type: 'FAULT'; fault: keyof FaultState; active: boolean; value: number }
+  | { type: 'OPENING'; nodeId: string; open: number } // Valve, gate or turbine opening (%)
+  | { type: 'PARADIGM'; paradigm: DesignParadigm }    // Switches the control strategy; the built tanks stay
+  | { type: 'PAUSE' };
+
+export type TimelineActionType = TimelineAction['type'];
+export type ConditionSignal = 'LEVEL' | 'ERROR' | 'FLOW_IN' | 'DEMAND';
+
+export interface TimelineCondition {
+  signal: ConditionSignal;
+  op: '<' | '>';
+  value: number;
+  nodeId?: string; // LEVEL of this reservoir instead of the controlled one
 }
 
-export interface PlanStep {
+export interface TimelineEvent {
   id: string;
-  triggerTime: number;
-  description: string;
-  // A plan can either change the disturbance pattern OR the target setpoint
-  actionType: 'CHANGE_DISTURBANCE' | 'CHANGE_SETPOINT';
-  // If disturbance, we store the full config. If setpoint, we store the number.
-  payload: DisturbanceConfig | number; 
-  status: 'pending' | 'active' | 'completed';
+  time: number;   // Absolute trigger time (s); conditional events are armed from this time
+  label: string;  // Shown in the log; empty for a generated description
+  action: TimelineAction;
+  repeat?: { interval: number; count: number }; // s between firings; count 0 repeats without limit
+  condition?: TimelineCondition;                 // Fire when this becomes true instead of at `time`
+}
+
+// Firing record of one timeline event within a run
+export interface TimelineRuntime {
+  fired: number;
+  lastFired: number;
+  wasTrue: boolean; // Condition value at the previous check, for edge triggering
+}
+
+// Changes fired timeline events made on top of the inputs the UI supplies
+export interface ScenarioOverrides {
+  faults: Partial<FaultState>;
+  openings: Record<string, number>; // Opening (%) by node id
+  paradigm: DesignParadigm | null;
+}
+
+// Canvas Topology
+export type NodeType = 'SOURCE' | 'PUMP' | 'PIPE' | 'RESERVOIR' | 'DEMAND' | 'VALVE' | 'GATE' | 'TURBINE';
+
+export interface CanvasNode {
+  id: string;
+  type: NodeType;
+  x: number;
+  y: number;
+  label: string;
+  data: any;
+}
+
+// How a PIPE carries flow: a bare delay, a pressurised pipe from geometry, or open-channel routing
+export type PipeRouting = 'DELAY' | 'PLUG' | 'MUSKINGUM' | 'KINEMATIC';
+
+// Named connection points; an edge without ports runs outlet → inlet
+export type PortName = 'inlet' | 'outlet' | 'overflow' | 'bypass';
+export type PortSide = 'left' | 'right' | 'top';
+
+export interface PortSpec {
+  name: PortName;
+  direction: 'in' | 'out';
+  side: PortSide;
+  label: string;
+}
+
+export interface CanvasEdge {
+  id: string;
+  source: string;
+  target: string;
+  sourcePort?: PortName;
+  targetPort?: PortName;
+}
+
+export type TopologyIssueKind =
+  'DANGLING_EDGE' | 'DISCONNECTED' | 'CYCLE' | 'NO_SOURCE' | 'NO_OUTLET' | 'NO_RESERVOIR' |
+  'INVALID_PORT' | 'SELF_LOOP' | 'DUPLICATE_EDGE' | 'NO_INFLOW' | 'NO_SUPPLY_PATH' | 'MISSING_PARAM' | 'OUT_OF_RANGE';
+
+// Errors make the network unsolvable and block the simulation; warnings are shown only
+export type IssueSeverity = 'error' | 'warning';
+
+export interface TopologyIssue {
+  kind: TopologyIssueKind;
+  severity: IssueSeverity;
+  nodeId?: string;
+  edgeId?: string;
+  message: string;
+}
+
+export interface TopologyReport {
+  order: string[];                     // Topological order of solvable (acyclic) nodes
+  upstream: Record<string, CanvasEdge[]>;
+  downstream: Record<string, CanvasEdge[]>;
+  controlledReservoirId: string | null; // Reservoir whose level the controller regulates
+  issues: TopologyIssue[];
+}
+
+// Hydraulic Solver
+export interface NodeFlow {
+  inflow: number;  // m3/s
+  outflow: number; // m3/s
+  level?: number;  // Reservoirs only (m)
+  unmet?: number;  // Demands only: requested flow not delivered (m3/s)
+  opening?: number; // Valves, gates and turbine guide vanes (%)
+  head?: number;    // Head difference across valves, gates and turbines (m)
+  power?: number;   // Turbines only: generated power (MW)
+  leak?: number;    // Water lost to a leak fault (m3/s)
+  spill?: number;   // Reservoirs only: discharge over the spillway (m3/s)
+  overtop?: number; // Reservoirs only: water lost over the wall above the maximum level (m3/s)
+  bypass?: number;  // Devices only: flow routed around the device through the bypass port (m3/s)
+  headLoss?: number; // Pipes only: friction head loss (m)
+  unitsRunning?: number; // Pumps only
+  powerUse?: number;     // Pumps only: electrical power drawn (MW)
+}
+
+// Simulation Engine
+export interface HistorySample {
+  t: number;
+  level: number;   // Controlled tank level (m)
+  measured: number; // Level reported by the sensor and fed to the controller (m)
+  sensorValid: boolean;
+  target: number;  // Setpoint (m)
+  flowIn: number;  // Total pump output (m3/s)
+  flowOut: number; // Total demand (m3/s)
+  power: number;   // Total turbine generation (MW)
+  pumpPower: number; // Total pump electrical consumption (MW)
+  output: number;  // Controller output: commanded pump flow (m3/s)
+  error: number;   // Error the controller acted on (m); Smith uses its predicted feedback
+  integral: number; // Controller integral state (m·s)
+  events?: EventLogEntry[]; // Faults, alarms, pump staging and timeline events raised this step
+  nodes: Record<string, NodeFlow>;
+  edges: Record<string, number>; // Flow carried by each edge (m3/s)
+}
+
+// Trend charts: stacked panels of history series sharing one time axis
+export interface ChartSignal {
+  key: string;   // History series key, see utils/historyStore
+  color: string;
+}
+
+// A series the trend can plot, listed for the signal picker
+export interface TrendSignal {
+  key: string;
+  label: string;
+  unit: string;
+  group: string; // Picker heading: the control loop or a node label
+}
+
+export interface ChartAxis {
+  auto: boolean; // Fit the visible data; otherwise use min/max
+  min: number;
+  max: number;
+}
+
+export interface ChartPanel {
+  id: string;
+  signals: ChartSignal[];
+  axis: ChartAxis;
+}
+
+// Whole-run history held column by column; see utils/historyStore
+export interface HistoryStore {
+  length: number;    // Rows in use
+  capacity: number;  // Rows allocated
+  time: Float64Array;
+  columns: Record<string, Float64Array>; // Series values by key, NaN where a series had no value
+  version: number;   // Bumped on every change so views can memoise on it
+  events: EventLogEntry[]; // Every event of the run, in time order
+  reducedBefore: number | null; // s, rows before this were thinned to keep the whole run; null when none were
+}
+
+export interface SimulationInputs {
+  nodes: CanvasNode[];
+  edges: CanvasEdge[];
+  paradigm: DesignParadigm;
+  faults: FaultState;
+  nodeFaults: NodeFault[];
+  tuning: ControlTuning;
+  mismatch: ModelMismatch;
+}
+
+// One point of the MPC predicted trajectory
+export interface PredictionPoint {
+  t: number;
+  level: number;   // Predicted tank level (m)
+  flowIn: number;  // Predicted pump flow reaching the tank (m3/s)
+  flowOut: number; // Forecast demand (m3/s)
+}
+
+export interface MpcMemory {
+  plan: number[];               // Optimal pump flow sequence from the last solve
+  prediction: PredictionPoint[];
+  solvedAt: number;             // Simulation time of the last solve (s)
+}
+
+// Smith predictor internal model levels (m)
+export interface SmithMemory {
+  undelayed: number; // Delay-free model
+  delayed: number;   // Same model driven by the delayed command
+}
+
+export interface SimulationState {
+  time: number;
+  seed: number;          // Scenario seed: every random stream is derived from it
+  rng: number;           // PRNG state for stochastic fault models
+  sensor: SensorState;
+  levels: Record<string, number>;        // Reservoir levels by node id (m)
+  pipeBuffers: Record<string, number[]>; // Routing state of each pipe by node id (see routePipe)
+  integral: number;      // PID integral term
+  lastError: number;
+  lastOut: number;       // Previous controller output (MPC increment base)
+  outputHistory: number[]; // Applied pump commands, newest last (flow still in transit for internal models)
+  smith: SmithMemory;
+  mpc: MpcMemory;
+  demandPattern: DisturbanceConfig;
+  setpointPattern: DisturbanceConfig;
+  demandMemory: DisturbanceMemory;
+  setpointMemory: DisturbanceMemory;
+  timeline: TimelineEvent[];
+  timelineRuntime: Record<string, TimelineRuntime>; // By event id; events without an entry have not fired
+  overrides: ScenarioOverrides;
+  pauseRequested: boolean; // A PAUSE event fired; the driver stops and clears it
+  log: EventLogEntry[];  // Timeline events fired, node faults starting or clearing and alarms raised, oldest first
+  alarms: Alarm[];       // Active alarms plus recent ones not yet acknowledged, oldest first
+  pumps: Record<string, PumpStationState>; // Unit staging by pump node id
+  energy: EnergyAccount; // Energy and water losses accumulated over the run
+  sample: HistorySample | null; // Values recorded by the most recent step
+}
+
+// Energy and water totals of a run. Energy is binned by hour of the run clock so a tariff can price it afterwards.
+export interface EnergyAccount {
+  pumpEnergy: number[]; // kWh drawn by pumps in each of the 24 hours (run hour mod 24)
+  generation: number[]; // kWh generated by turbines, binned the same way
+  spilled: number;      // m3 discharged over spillways
+  overtopped: number;   // m3 lost over reservoir walls
+  unmet: number;        // m3 of demand not delivered
+  duration: number;     // s accounted
+}
+
+// One band of a time-of-use tariff: clock hours [start, end), wrapping past midnight when end ≤ start
+export interface TariffPeriod {
+  name: string;
+  start: number;
+  end: number;
+  price: number; // ¥/kWh
+}
+
+export interface CostConfig {
+  tariff: TariffPeriod[];
+  startHour: number;       // Clock hour at t = 0
+  generationPrice: number; // Feed-in price for turbine output (¥/kWh)
+  spillPenalty: number;    // Value of water spilled or overtopped (¥/m3)
+  unmetPenalty: number;    // Penalty for demand not delivered (¥/m3)
+  tankUnitCost: number;    // Tank construction cost per m2 of area (¥)
+  tankLifetime: number;    // Years the construction cost is written off over
+  computeRate: Record<ControlAlgorithm, number>; // Controller computing cost (¥/h)
+}
+
+// Cost of one run, plus both sides of the infrastructure/compute trade-off annualised
+export interface CostSummary {
+  pumpEnergy: number;    // kWh
+  generation: number;    // kWh
+  energyCost: number;    // ¥
+  generationRevenue: number; // ¥
+  waterLost: number;     // m3 spilled and overtopped
+  lossCost: number;      // ¥
+  unmet: number;         // m3
+  unmetCost: number;     // ¥
+  computeCost: number;   // ¥
+  runCost: number;       // ¥, net of generation revenue
+  tankCost: number;      // ¥, construction
+  annualOperating: number; // ¥/year if the run were repeated all year
+  annualCapital: number;   // ¥/year of tank construction
+}
+
+// Comparison runs: one design variant replayed against the shared scenario
+export interface ComparisonVariant {
+  id: string;
+  name: string;
+  paradigm: DesignParadigm; // Algorithm and tank area the variant runs with
+}
+
+export interface ComparisonKpis {
+  iae: number;        // ∫|e| dt (m·s)
+  ise: number;        // ∫e² dt (m²·s)
+  overshoot: number;  // Largest error past the setpoint after an excursion (m)
+  settlingTime: number | null; // Longest return to within the settling band (s), null if never settled
+  spill: number;      // m3 spilled and overtopped
+  unmet: number;      // m3 of demand not delivered
+  energy: number;     // kWh drawn by pumps
+  cost: number;       // ¥, net run cost
+}
+
+export interface ComparisonPoint {
+  t: number;
+  level: number;
+  target: number;
+  flowIn: number;
+  flowOut: number;
+}
+
+export interface ComparisonResult {
+  variant: ComparisonVariant;
+  kpis: ComparisonKpis;
+  trace: ComparisonPoint[]; // Downsampled for overlay charts
+}
+
+// Canvas view transform: screen = world · zoom + (x, y)
+export interface Viewport {
+  x: number;
+  y: number;
+  zoom: number;
+}
+
+// Everything an edit on the design canvas can change, snapshotted for undo/redo and the clipboard
+export interface CanvasDocument {
+  nodes: CanvasNode[];
+  edges: CanvasEdge[];
+  nodeFaults: NodeFault[];
+}
+
+export interface EditHistory {
+  past: CanvasDocument[];   // Oldest first
+  future: CanvasDocument[]; // Next redo first
+}
+
+// Saved project: canvas topology plus everything needed to replay the scenario
+export interface ProjectFile {
+  version: number;
+  name: string;
+  savedAt: string; // ISO timestamp
+  nodes: CanvasNode[];
+  edges: CanvasEdge[];
+  paradigm: DesignParadigm;
+  tuning: ControlTuning;
+  mismatch: ModelMismatch;
+  faults: FaultState;
+  nodeFaults: NodeFault[];
+  demandPattern: DisturbanceConfig;
+  setpointPattern: DisturbanceConfig;
+  timeline: TimelineEvent[];
+  seed: number;
+  costs: CostConfig;
+}
+
+// Recorded run exported for reports and offline analysis
+export interface RunMetadata {
+  version: number;
+  kind: 'run';
+  name: string;
+  exportedAt: string;   // ISO timestamp
+  paradigm: DesignParadigm;
+  topologyHash: string; // Identifies the network the run used, ignoring layout and labels
+  seed: number;
+  dt: number;           // s between samples
+  start: number;        // s, first stored sample
+  end: number;          // s, last stored sample
+  samples: number;
+  reducedBefore: number | null; // s, earlier rows were thinned to every 2nd, 4th… sample; null when all rows are at dt
+  parameters: Omit<ProjectFile, 'version' | 'savedAt' | 'name' | 'nodes' | 'edges' | 'paradigm' | 'seed'>;
+}
+
+// Header of a run export; the samples themselves are written from the history store
+export interface RunExport {
+  metadata: RunMetadata;
+  kpis: ComparisonKpis;
+  costs: CostSummary;
+  columns: string[];    // History store columns written after the time, in file order
+  events: EventLogEntry[];
+  alarms: Alarm[];      // Alarms still listed at the end of the run
+}
+
+// Reusable scenario: patterns, timeline and seed without the canvas
+export interface ScenarioFile {
+  version: number;
+  kind: 'scenario';
+  name: string;
+  savedAt: string;
+  demandPattern: DisturbanceConfig;
+  setpointPattern: DisturbanceConfig;
+  timeline: TimelineEvent[];
+  seed: number;
 }
@@ -0,0 +1,62 @@
+import { CanvasDocument, CanvasNode, EditHistory } from '../types';
+
+const HISTORY_LIMIT = 100;
+
+export const createEditHistory = (): EditHistory => ({ past: [], future: [] });
+
+// Record the document as it was before an edit; any redo branch is dropped
+export const pushEdit = (history: EditHistory, before: CanvasDocument): EditHistory => ({
+  past: [...history.past, before].slice(-HISTORY_LIMIT),
+  future: []
+});
+
+export const undoEdit = (history: EditHistory, current: CanvasDocument) => {
+  if (!history.past.length) return null;
+  const doc = history.past[history.past.length - 1];
+  return { doc, history: { past: history.past.slice(0, -1), future: [current, ...history.future] } };
+};
+
+export const redoEdit = (history: EditHistory, current: CanvasDocument) => {
+  if (!history.future.length) return null;
+  const [doc, ...future] = history.future;
+  return { doc, history: { past: [...history.past, current], future } };
+};
+
+// Nodes plus the edges and faults wholly inside the selection
+export const extractSubgraph = (doc: CanvasDocument, ids: string[]): CanvasDocument => {
+  const keep = new Set(ids);
+  return {
+    nodes: doc.nodes.filter(n => keep.has(n.id)),
+    edges: doc.edges.filter(e => keep.has(e.source) && keep.has(e.target)),
+    nodeFaults: doc.nodeFaults.filter(f => keep.has(f.nodeId))
+  };
+};
+
+export const removeNodes = (doc: CanvasDocument, ids: string[]): CanvasDocument => {
+  const drop = new Set(ids);
+  return {
+    nodes: doc.nodes.filter(n => !drop.has(n.id)),
+    edges: doc.edges.filter(e => !drop.has(e.source) && !drop.has(e.target)),
+    nodeFaults: doc.nodeFaults.filter(f => !drop.has(f.nodeId))
+  };
+};
+
+// Insert a copied subgraph under fresh ids, shifted by (dx, dy); returns the new node ids
+export const pasteSubgraph = (doc: CanvasDocument, clip: CanvasDocument, dx: number, dy: number) => {
+  const stamp = Date.now();
+  const idMap: Record<string, string> = {};
+  clip.nodes.forEach((n, i) => { idMap[n.id] = `n${stamp}_${i}`; });
+  const nodes = clip.nodes.map(n => ({ ...n, id: idMap[n.id], x: n.x + dx, y: n.y + dy, data: { ...n.data } }));
+  const edges = clip.edges.map((e, i) => ({ ...e, id: `e${stamp}_${i}`, source: idMap[e.source], target: idMap[e.target] }));
+  const nodeFaults = clip.nodeFaults.map((f, i) => ({ ...f, id: `f${stamp}_${i}`, nodeId: idMap[f.nodeId] }));
+  return {
+    doc: { nodes: [...doc.nodes, ...nodes], edges: [...doc.edges, ...edges], nodeFaults: [...doc.nodeFaults, ...nodeFaults] },
+    ids: nodes.map(n => n.id)
+  };
+};
+
+export const nodesInRect = (nodes: CanvasNode[], x1: number, y1: number, x2: number, y2: number) => {
+  const [left, right] = [Math.min(x1, x2), Math.max(x1, x2)];
+  const [top, bottom] = [Math.min(y1, y2), Math.max(y1, y2)];
+  return nodes.filter(n => n.x >= left && n.x <= right && n.y >= top && n.y <= bottom).map(n => n.id);
+};
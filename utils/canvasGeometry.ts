@@ -0,0 +1,89 @@
+import { CanvasNode, NodeType, PortName, PortSide, Viewport } from '../types';
+import { getPort } from '../services/ports';
+
+export const GRID_SIZE = 20;
+export const MIN_ZOOM = 0.2;
+export const MAX_ZOOM = 3;
+
+// Rendered body size of each node type in world units (matches CanvasNodeComponent)
+export const NODE_SIZE: Record<NodeType, { w: number; h: number }> = {
+  SOURCE: { w: 56, h: 56 },
+  PUMP: { w: 56, h: 56 },
+  PIPE: { w: 112, h: 20 },
+  RESERVOIR: { w: 56, h: 56 },
+  DEMAND: { w: 56, h: 56 },
+  VALVE: { w: 56, h: 56 },
+  GATE: { w: 56, h: 56 },
+  TURBINE: { w: 56, h: 56 }
+};
+const PORT_RADIUS = 6; // Port dots sit just outside the body, centred half a dot away
+
+// Outward direction of each side, used to bend edges away from the node
+const SIDE_NORMAL: Record<PortSide, { x: number; y: number }> = {
+  left: { x: -1, y: 0 },
+  right: { x: 1, y: 0 },
+  top: { x: 0, y: -1 }
+};
+
+// Centre of a named port in world coordinates, with the outward normal of its side
+export const getPortPosition = (node: CanvasNode, port: PortName) => {
+  const side = getPort(node.type, port)?.side ?? (port === 'inlet' ? 'left' : 'right');
+  const { w, h } = NODE_SIZE[node.type];
+  const normal = SIDE_NORMAL[side];
+  return {
+    x: node.x + normal.x * (w / 2 + PORT_RADIUS),
+    y: node.y + normal.y * (h / 2 + PORT_RADIUS),
+    normal
+  };
+};
+
+export const snapToGrid = (v: number) => Math.round(v / GRID_SIZE) * GRID_SIZE;
+
+export const screenToWorld = (vp: Viewport, sx: number, sy: number) => ({ x: (sx - vp.x) / vp.zoom, y: (sy - vp.y) / vp.zoom });
+
+// Zoom by `factor`, keeping the world point under the screen position (sx, sy) fixed
+export const zoomAt = (vp: Viewport, sx: number, sy: number, factor: number): Viewport => {
+  const zoom = Math.max(MIN_ZOOM, Math.min(MAX_ZOOM, vp.zoom * factor));
+  const k = zoom / vp.zoom;
+  return { zoom, x: sx - (sx - vp.x) * k, y: sy - (sy - vp.y) * k };
+};
+
+// Bounding box of all node bodies, including the label hanging below icon nodes
+export const getContentBounds = (nodes: CanvasNode[]) => {
+  if (!nodes.length) return null;
+  let minX = Infinity, minY = Infinity, maxX = -Infinity, maxY = -Infinity;
+  nodes.forEach(n => {
+    const { w, h } = NODE_SIZE[n.type];
+    minX = Math.min(minX, n.x - w / 2 - PORT_RADIUS * 2);
+    maxX = Math.max(maxX, n.x + w / 2 + PORT_RADIUS * 2);
+    minY = Math.min(minY, n.y - h / 2);
+    maxY = Math.max(maxY, n.y + h / 2 + 40);
+  });
+  return { minX, minY, maxX, maxY };
+};
+
+export const fitViewport = (nodes: CanvasNode[], width: number, height: number, padding = 40): Viewport => {
+  const bounds = getContentBounds(nodes);
+  if (!bounds || width <= 0 || height <= 0) return { x: 0, y: 0, zoom: 1 };
+  const bw = bounds.maxX - bounds.minX;
+  const bh = bounds.maxY - bounds.minY;
+  const zoom = Math.max(MIN_ZOOM, Math.min(1.5, (width - 2 * padding) / bw, (height - 2 * padding) / bh));
+  return {
+    zoom,
+    x: width / 2 - (bounds.minX + bw / 2) * zoom,
+    y: height / 2 - (bounds.minY + bh / 2) * zoom
+  };
+};
+
+type PortAnchor = ReturnType<typeof getPortPosition>;
+
+// Cubic edge leaving and entering along each port's normal, with its midpoint for labels
+export const getEdgePath = (a: PortAnchor, b: PortAnchor) => {
+  const bend = Math.max(40, Math.hypot(b.x - a.x, b.y - a.y) / 3);
+  const c1 = { x: a.x + a.normal.x * bend, y: a.y + a.normal.y * bend };
+  const c2 = { x: b.x + b.normal.x * bend, y: b.y + b.normal.y * bend };
+  return {
+    path: `M${a.x},${a.y} C${c1.x},${c1.y} ${c2.x},${c2.y} ${b.x},${b.y}`,
+    mid: { x: (a.x + 3 * c1.x + 3 * c2.x + b.x) / 8, y: (a.y + 3 * c1.y + 3 * c2.y + b.y) / 8 }
+  };
+};
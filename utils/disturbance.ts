@@ -0,0 +1,121 @@
+import { DisturbanceConfig, DisturbanceMemory, ProfilePoint } from '../types';
+import { seedRandom, nextRandom, nextGaussian } from './random';
+
+const BURST_INTERVAL = 20; // Mean time between bursts (s)
+const BURST_DURATION = 2;  // s
+
+// Linear interpolation over a recorded profile, looped over its own duration
+export const interpolateProfile = (profile: ProfilePoint[], t: number) => {
+  if (!profile.length) return 0;
+  if (profile.length === 1) return profile[0].value;
+  const start = profile[0].t;
+  const span = profile[profile.length - 1].t - start;
+  const localT = span > 0 ? start + ((((t - start) % span) + span) % span) : start;
+  let i = 1;
+  while (i < profile.length - 1 && profile[i].t < localT) i++;
+  const a = profile[i - 1];
+  const b = profile[i];
+  const ratio = b.t > a.t ? (localT - a.t) / (b.t - a.t) : 0;
+  return a.value + (b.value - a.value) * Math.max(0, Math.min(1, ratio));
+};
+
+// Deterministic part of a pattern; stochastic patterns (NOISE, BURST, RANDOM_WALK) return their base here
+export const getDisturbanceValue = (t: number, config: DisturbanceConfig) => {
+  const { type, base, amplitude, frequency } = config;
+  const omega = 2 * Math.PI * frequency;
+  const period = 1 / Math.max(0.001, frequency);
+  const localT = t % period;
+  switch(type) {
+    case 'CONSTANT': return base;
+    case 'STEP': return localT < period/2 ? base : base + amplitude;
+    case 'RAMP': return base + amplitude * (localT / period);
+    case 'SINE': return base + amplitude * Math.sin(omega * t);
+    case 'SQUARE': return base + amplitude * Math.sign(Math.sin(omega * t));
+    case 'TRIANGLE': return base + amplitude * (1 - 4 * Math.abs(localT / period - 0.5));
+    case 'SAWTOOTH': return base + amplitude * (2 * localT / period - 1);
+    case 'PULSE': return localT < period * 0.1 ? base + amplitude : base;
+    case 'CSV_PROFILE': return config.profile?.length ? interpolateProfile(config.profile, t) : base;
+    default: return base;
+  }
+};
+
+// A pattern's own seed wins over the stream seed handed down from the scenario
+export const createDisturbanceMemory = (config: DisturbanceConfig, seed: number): DisturbanceMemory => ({
+  rng: seedRandom(config.seed ?? seed),
+  walk: 0,
+  burst: 0
+});
+
+/**
+ * Advance a disturbance signal by one step. Random patterns draw only from `memory.rng`, so a
+ * run replays exactly from its seed. NOISE is uniform in ±amplitude/2; BURST arrives as a Poisson
+ * process and lifts the signal by 2·amplitude for a fixed duration; the random walk takes Gaussian
+ * steps scaled by √(frequency·dt) and reflects at ±amplitude.
+ */
+export const stepDisturbance = (t: number, config: DisturbanceConfig, memory: DisturbanceMemory, dt: number) => {
+  const { base, amplitude } = config;
+  switch (config.type) {
+    case 'NOISE': {
+      const [u, rng] = nextRandom(memory.rng);
+      return { value: base + (u - 0.5) * amplitude, memory: { ...memory, rng } };
+    }
+    case 'BURST': {
+      const [u, rng] = nextRandom(memory.rng);
+      const burst = memory.burst > 0 ? memory.burst - dt : (u < dt / BURST_INTERVAL ? BURST_DURATION : 0);
+      return { value: burst > 0 ? base + amplitude * 2 : base, memory: { ...memory, rng, burst } };
+    }
+    case 'RANDOM_WALK': {
+      const [z, rng] = nextGaussian(memory.rng);
+      const limit = Math.abs(amplitude);
+      let walk = memory.walk + z * limit * Math.sqrt(Math.max(0, config.frequency) * dt);
+      if (walk > limit) walk = 2 * limit - walk;
+      if (walk < -limit) walk = -2 * limit - walk;
+      walk = Math.max(-limit, Math.min(limit, walk));
+      return { value: base + walk, memory: { ...memory, rng, walk } };
+    }
+    default:
+      return { value: getDisturbanceValue(t, config), memory };
+  }
+};
+
+// Deterministic preview for model-based control: stochastic patterns forecast their expected value,
+// a burst already under way is assumed to run its course.
+export const getDisturbanceForecast = (t: number, config: DisturbanceConfig, memory: DisturbanceMemory, now: number) => {
+  if (config.type === 'RANDOM_WALK') return config.base + memory.walk;
+  if (config.type === 'BURST') return t - now < memory.burst ? config.base + config.amplitude * 2 : config.base;
+  return getDisturbanceValue(t, config);
+};
+
+const parseTime = (raw: string) => {
+  const text = raw.trim();
+  if (text.includes(':')) {
+    const parts = text.split(':').map(Number);
+    if (parts.some(isNaN)) return NaN;
+    return parts.reduce((acc, p) => acc * 60 + p, 0) * (parts.length === 2 ? 60 : 1);
+  }
+  return Number(text);
+};
+
+/**
+ * Parse a two-column CSV (time, value) into a profile. Time may be seconds or HH:MM[:SS];
+ * a non-numeric first row is treated as a header.
+ */
+export const parseDemandProfile = (text: string): ProfilePoint[] => {
+  const rows = text.split(/\r?\n/).map(r => r.trim()).filter(r => r && !r.startsWith('#'));
+  const points: ProfilePoint[] = [];
+  rows.forEach((row, i) => {
+    const cells = row.split(/[,;\t]/);
+    if (cells.length < 2) throw new Error(`第 ${i + 1} 行缺少数值列`);
+    const t = parseTime(cells[0]);
+    const value = Number(cells[1]);
+    if (!Number.isFinite(t) || !Number.isFinite(value)) {
+      if (i === 0) return;
+      throw new Error(`第 ${i + 1} 行无法解析: ${row}`);
+    }
+    points.push({ t, value });
+  });
+  if (points.length < 2) throw new Error('曲线至少需要两个数据点');
+  points.sort((a, b) => a.t - b.t);
+  const start = points[0].t;
+  return points.map(p => ({ t: p.t - start, value: p.value }));
+};
@@ -0,0 +1,44 @@
+import { describe, expect, it } from 'vitest';
+import { HistorySample } from '../types';
+import { appendSamples, createHistoryStore, downsample, getValue } from './historyStore';
+
+const sample = (i: number, nodes: HistorySample['nodes'] = {}): HistorySample => ({
+  t: i / 10, level: 1e6 + i * 1e-3, measured: 0, sensorValid: true, target: 0,
+  flowIn: 0, flowOut: 0, power: 0, pumpPower: 0, nodes, edges: {}
+} as HistorySample);
+
+const fill = (rows: number, nodesFrom = Infinity) => {
+  const store = createHistoryStore();
+  for (let start = 0; start < rows; start += 1000) {
+    appendSamples(store, Array.from({ length: Math.min(1000, rows - start) }, (_, k) => {
+      const i = start + k;
+      return sample(i, i >= nodesFrom ? { x: { inflow: 5, outflow: 5 } } : {});
+    }));
+  }
+  return store;
+};
+
+describe('history store', () => {
+  it('stores values at full double precision', () => {
+    const store = fill(10);
+    expect(getValue(store, 'level', 9)).toBe(1e6 + 9e-3);
+  });
+
+  it('keeps the whole run by thinning older rows', () => {
+    const store = fill(300000, 250000);
+    expect(store.time[0]).toBe(0);
+    expect(store.time[store.length - 1]).toBeCloseTo(29999.9, 6);
+    expect(store.reducedBefore).toBeGreaterThan(0);
+    expect(store.time.subarray(1, store.length).every((t, i) => t > store.time[i])).toBe(true);
+    // A column that appeared late reads NaN before it, even in moved rows
+    const column = store.columns['node:x:inflow'];
+    expect(column.subarray(0, store.length).every((v, i) => store.time[i] >= 25000 || Number.isNaN(v))).toBe(true);
+  });
+
+  it('downsamples to at most two points per bucket, keeping the extremes', () => {
+    const store = fill(5000);
+    const points = downsample(store, 'level', 0, 500, 50);
+    expect(points.length).toBeLessThanOrEqual(100);
+    expect(points[points.length - 1].v).toBe(getValue(store, 'level', 4999));
+  });
+});
@@ -0,0 +1,166 @@
+import { HistorySample, HistoryStore, NodeFlow } from '../types';
+import { DT } from '../services/simulationEngine';
+
+// Scalar fields of a sample, each stored under its own name
+export const SAMPLE_FIELDS = ['level', 'measured', 'sensorValid', 'target', 'flowIn', 'flowOut', 'power', 'pumpPower', 'output', 'error', 'integral'] as const;
+export type SampleField = typeof SAMPLE_FIELDS[number];
+
+const INITIAL_CAPACITY = 4096;
+const MAX_ROWS = Math.round(3 * 3600 / DT); // Rows held before older ones are thinned, 3 h at full resolution
+
+export const nodeSeriesKey = (nodeId: string, field: keyof NodeFlow) => `node:${nodeId}:${field}`;
+export const edgeSeriesKey = (edgeId: string) => `edge:${edgeId}`;
+
+export const createHistoryStore = (): HistoryStore => ({
+  length: 0,
+  capacity: INITIAL_CAPACITY,
+  time: new Float64Array(INITIAL_CAPACITY),
+  columns: {},
+  version: 0,
+  events: [],
+  reducedBefore: null
+});
+
+const newColumn = (capacity: number) => new Float64Array(capacity).fill(NaN);
+
+const grow = (store: HistoryStore, rows: number) => {
+  let capacity = store.capacity;
+  while (capacity < rows) capacity *= 2;
+  if (capacity === store.capacity) return;
+  const time = new Float64Array(capacity);
+  time.set(store.time.subarray(0, store.length));
+  store.time = time;
+  Object.keys(store.columns).forEach(key => {
+    const column = newColumn(capacity);
+    column.set(store.columns[key].subarray(0, store.length));
+    store.columns[key] = column;
+  });
+  store.capacity = capacity;
+};
+
+/**
+ * Keep every other row of the older half once the store is full, so the whole run stays at a
+ * resolution that coarsens with age. Kept rows are real samples; none are averaged.
+ */
+const thinOldest = (store: HistoryStore) => {
+  const half = store.length >> 1;
+  const kept = (half + 1) >> 1;
+  const move = (column: Float64Array) => {
+    for (let i = 1; i < kept; i++) column[i] = column[2 * i];
+    column.copyWithin(kept, half, store.length);
+  };
+  move(store.time);
+  Object.values(store.columns).forEach(column => {
+    move(column);
+    column.fill(NaN, store.length - half + kept, store.length);
+  });
+  store.length -= half - kept;
+  store.reducedBefore = store.time[kept];
+};
+
+const write = (store: HistoryStore, key: string, row: number, value: number | undefined) => {
+  if (value === undefined) return;
+  if (!store.columns[key]) store.columns[key] = newColumn(store.capacity);
+  store.columns[key][row] = value;
+};
+
+/**
+ * Append samples in place. Every scalar field, every numeric node flow field and every edge flow
+ * becomes a column the first time it appears; earlier rows of a new column read as NaN.
+ */
+export const appendSamples = (store: HistoryStore, samples: HistorySample[]) => {
+  if (!samples.length) return;
+  while (store.length >= 4 && store.length + samples.length > MAX_ROWS) thinOldest(store);
+  grow(store, store.length + samples.length);
+  samples.forEach(sample => {
+    const row = store.length++;
+    store.time[row] = sample.t;
+    SAMPLE_FIELDS.forEach(f => write(store, f, row, f === 'sensorValid' ? (sample.sensorValid ? 1 : 0) : sample[f]));
+    Object.entries(sample.nodes).forEach(([id, flow]) => {
+      (Object.keys(flow) as (keyof NodeFlow)[]).forEach(f => write(store, nodeSeriesKey(id, f), row, flow[f]));
+    });
+    Object.entries(sample.edges).forEach(([id, q]) => write(store, edgeSeriesKey(id), row, q));
+    if (sample.events) store.events.push(...sample.events);
+  });
+  store.version++;
+};
+
+export const clearHistory = (store: HistoryStore) => {
+  store.length = 0;
+  store.columns = {};
+  store.events = [];
+  store.reducedBefore = null;
+  store.version++;
+};
+
+export const getTimeRange = (store: HistoryStore): [number, number] =>
+  store.length ? [store.time[0], store.time[store.length - 1]] : [0, 0];
+
+// First row at or after t
+export const lowerBound = (store: HistoryStore, t: number) => {
+  let lo = 0;
+  let hi = store.length;
+  while (lo < hi) {
+    const mid = (lo + hi) >> 1;
+    if (store.time[mid] < t) lo = mid + 1; else hi = mid;
+  }
+  return lo;
+};
+
+// Row closest in time to t, or -1 for an empty store
+export const findNearestRow = (store: HistoryStore, t: number) => {
+  if (!store.length) return -1;
+  const i = Math.min(lowerBound(store, t), store.length - 1);
+  return i > 0 && t - store.time[i - 1] < store.time[i] - t ? i - 1 : i;
+};
+
+export const getValue = (store: HistoryStore, key: string, row: number) => store.columns[key]?.[row] ?? NaN;
+
+// Largest gap between two series between t0 and t1, ignoring rows where either is missing
+export const getMaxDifference = (store: HistoryStore, a: string, b: string, t0: number, t1: number) => {
+  const ca = store.columns[a];
+  const cb = store.columns[b];
+  let max = 0;
+  if (!ca || !cb) return max;
+  const end = Math.min(store.length, lowerBound(store, t1) + 1);
+  for (let i = lowerBound(store, t0); i < end; i++) {
+    const d = Math.abs(ca[i] - cb[i]);
+    if (d > max) max = d;
+  }
+  return max;
+};
+
+/**
+ * Points of one series between t0 and t1 reduced to at most two per bucket (the minimum and
+ * maximum, in time order), so a trace keeps its peaks at any zoom. NaN rows are skipped.
+ */
+export const downsample = (store: HistoryStore, key: string, t0: number, t1: number, buckets: number) => {
+  const column = store.columns[key];
+  const points: { t: number; v: number }[] = [];
+  if (!column || !store.length) return points;
+  const start = Math.max(0, lowerBound(store, t0) - 1);
+  const end = Math.min(store.length, lowerBound(store, t1) + 1);
+  const n = end - start;
+  if (n <= 2 * buckets) {
+    for (let i = start; i < end; i++) if (!Number.isNaN(column[i])) points.push({ t: store.time[i], v: column[i] });
+    return points;
+  }
+  const size = n / buckets;
+  for (let b = 0; b < buckets; b++) {
+    const from = start + Math.floor(b * size);
+    const to = Math.min(end, start + Math.floor((b + 1) * size));
+    let min = -1;
+    let max = -1;
+    for (let i = from; i < to; i++) {
+      const v = column[i];
+      if (Number.isNaN(v)) continue;
+      if (min < 0 || v < column[min]) min = i;
+      if (max < 0 || v > column[max]) max = i;
+    }
+    if (min < 0) continue;
+    const [a, c] = min <= max ? [min, max] : [max, min];
+    points.push({ t: store.time[a], v: column[a] });
+    if (c !== a) points.push({ t: store.time[c], v: column[c] });
+  }
+  return points;
+};
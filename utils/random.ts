@@ -0,0 +1,29 @@
+// Mulberry32: a tiny 32-bit PRNG whose whole state is one integer, so it can live in
+// immutable simulation state and be replayed exactly from a snapshot.
+export const DEFAULT_SEED = 20240601;
+
+export const seedRandom = (seed: number) => (Math.floor(seed) >>> 0) || 1;
+
+// Independent stream for one consumer of a scenario seed, so adding a stream never shifts the others
+export const deriveSeed = (seed: number, stream: number) => {
+  let h = Math.imul(seedRandom(seed) ^ Math.imul(stream + 1, 0x9E3779B1), 0x85EBCA6B);
+  h ^= h >>> 13;
+  h = Math.imul(h, 0xC2B2AE35);
+  return ((h ^ (h >>> 16)) >>> 0) || 1;
+};
+
+// Returns a uniform number in [0, 1) and the advanced generator state
+export const nextRandom = (state: number): [number, number] => {
+  const next = (state + 0x6D2B79F5) >>> 0;
+  let t = next;
+  t = Math.imul(t ^ (t >>> 15), t | 1);
+  t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+  return [((t ^ (t >>> 14)) >>> 0) / 4294967296, next];
+};
+
+// Standard normal sample (Box-Muller)
+export const nextGaussian = (state: number): [number, number] => {
+  const [u1, s1] = nextRandom(state);
+  const [u2, s2] = nextRandom(s1);
+  return [Math.sqrt(-2 * Math.log(Math.max(u1, 1e-12))) * Math.cos(2 * Math.PI * u2), s2];
+};